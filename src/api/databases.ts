@@ -0,0 +1,85 @@
+import { Database, DatabaseType } from '../types/dokploy';
+
+const DATABASE_ID_KEYS = {
+  postgres: 'postgresId',
+  mysql: 'mysqlId',
+  mariadb: 'mariadbId',
+  mongo: 'mongoId',
+  redis: 'redisId'
+} as const;
+
+const DEFAULT_PORTS: Record<DatabaseType, number> = {
+  postgres: 5432,
+  mysql: 3306,
+  mariadb: 3306,
+  mongo: 27017,
+  redis: 6379
+};
+
+const DATABASE_LABELS: Record<DatabaseType, string> = {
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  mongo: 'MongoDB',
+  redis: 'Redis'
+};
+
+export const DATABASE_TYPES = Object.keys(DATABASE_ID_KEYS) as DatabaseType[];
+
+export interface ConnectionInfo {
+  host: string;
+  port: number;
+  database?: string;
+  user?: string;
+  password: string;
+  url: string;
+}
+
+export function getDatabaseIdKey(type: DatabaseType): string {
+  return DATABASE_ID_KEYS[type];
+}
+
+export function getDatabaseType(database: Database): DatabaseType {
+  const type = DATABASE_TYPES.find(t => DATABASE_ID_KEYS[t] in database);
+  if (!type) {
+    throw new Error(`Unknown database service: ${database.name}`);
+  }
+  return type;
+}
+
+export function getDatabaseId(database: Database): string {
+  const key = DATABASE_ID_KEYS[getDatabaseType(database)];
+  return (database as unknown as Record<string, string>)[key];
+}
+
+export function getDatabaseLabel(type: DatabaseType): string {
+  return DATABASE_LABELS[type];
+}
+
+export function getInternalConnectionInfo(database: Database, maskPassword = true): ConnectionInfo {
+  const type = getDatabaseType(database);
+  const host = database.appName;
+  const port = DEFAULT_PORTS[type];
+  const password = maskPassword ? '********' : database.databasePassword;
+  const user = 'databaseUser' in database ? database.databaseUser : undefined;
+  const name = 'databaseName' in database ? database.databaseName : undefined;
+
+  let url: string;
+  switch (type) {
+    case 'postgres':
+      url = `postgresql://${user}:${password}@${host}:${port}/${name}`;
+      break;
+    case 'mysql':
+    case 'mariadb':
+      url = `${type}://${user}:${password}@${host}:${port}/${name}`;
+      break;
+    case 'mongo':
+      url = `mongodb://${user}:${password}@${host}:${port}`;
+      break;
+    case 'redis':
+      url = `redis://default:${password}@${host}:${port}`;
+      break;
+  }
+
+  return { host, port, database: name, user, password, url };
+}
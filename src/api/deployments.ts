@@ -0,0 +1,15 @@
+import { Deployment } from '../types/dokploy';
+
+/**
+ * Dokploy records the commit of git-triggered deployments in the
+ * description as `Hash: <sha>`.
+ */
+export function getDeploymentCommitHash(deployment: Deployment): string | undefined {
+  const match = deployment.description?.match(/\bHash:\s*([0-9a-f]{7,40})\b/i);
+  return match?.[1];
+}
+
+export function matchesCommit(deployment: Deployment, commit: string): boolean {
+  const hash = getDeploymentCommitHash(deployment);
+  return !!hash && commit.toLowerCase().startsWith(hash.toLowerCase());
+}
@@ -4,17 +4,41 @@ import { URL } from 'url';
 import { log } from '../services/logger';
 import {
     Application,
+    ApplicationEnvironment,
     Container,
+    ContainerMetric,
+    DatabaseType,
     Deployment,
-    Project
+    Domain,
+    DomainInput,
+    MetricsToken,
+    Project,
+    RemoteServer,
+    ServerMetrics
 } from '../types/dokploy';
+import { getDatabaseIdKey } from './databases';
+import { DokployApiError } from './errors';
+
+export interface DokployClientOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
 
 export class DokployClient {
   constructor(
     private endpoint: string,
-    private apiKey: string
+    private apiKey: string,
+    private options: DokployClientOptions = {}
   ) {}
 
+  async getVersion(): Promise<string> {
+    return this.request<string>('/api/settings.getDokployVersion');
+  }
+
   async getProjects(): Promise<Project[]> {
     return this.request<Project[]>('/api/project.all');
   }
@@ -23,6 +47,18 @@ export class DokployClient {
     return this.request<Application>(`/api/application.one?applicationId=${applicationId}`);
   }
 
+  async getEnvironment(applicationId: string): Promise<ApplicationEnvironment> {
+    const app = await this.getApplication(applicationId);
+    return {
+      env: app.env ?? '',
+      buildArgs: app.buildArgs ?? ''
+    };
+  }
+
+  async saveEnvironment(applicationId: string, environment: ApplicationEnvironment): Promise<void> {
+    return this.request('/api/application.saveEnvironment', 'POST', { applicationId, ...environment });
+  }
+
   async getDeployments(applicationId: string): Promise<Deployment[]> {
     return this.request<Deployment[]>(`/api/deployment.all?applicationId=${applicationId}`);
   }
@@ -39,10 +75,88 @@ export class DokployClient {
     return this.request('/api/application.redeploy', 'POST', { applicationId });
   }
 
+  async getDomains(applicationId: string): Promise<Domain[]> {
+    return this.request<Domain[]>(`/api/domain.byApplicationId?applicationId=${applicationId}`);
+  }
+
+  async createDomain(applicationId: string, input: DomainInput): Promise<Domain> {
+    return this.request<Domain>('/api/domain.create', 'POST', { ...input, applicationId, domainType: 'application' });
+  }
+
+  async updateDomain(domainId: string, input: DomainInput): Promise<void> {
+    return this.request('/api/domain.update', 'POST', { ...input, domainId, domainType: 'application' });
+  }
+
+  async deleteDomain(domainId: string): Promise<void> {
+    return this.request('/api/domain.delete', 'POST', { domainId });
+  }
+
+  async startDatabase(type: DatabaseType, databaseId: string): Promise<void> {
+    return this.request(`/api/${type}.start`, 'POST', { [getDatabaseIdKey(type)]: databaseId });
+  }
+
+  async stopDatabase(type: DatabaseType, databaseId: string): Promise<void> {
+    return this.request(`/api/${type}.stop`, 'POST', { [getDatabaseIdKey(type)]: databaseId });
+  }
+
+  async reloadDatabase(type: DatabaseType, databaseId: string, appName: string): Promise<void> {
+    return this.request(`/api/${type}.reload`, 'POST', { [getDatabaseIdKey(type)]: databaseId, appName });
+  }
+
+  async cancelDeployment(deploymentId: string): Promise<void> {
+    return this.request('/api/deployment.killProcess', 'POST', { deploymentId });
+  }
+
+  async rollback(rollbackId: string): Promise<void> {
+    return this.request('/api/rollback.rollback', 'POST', { rollbackId });
+  }
+
+  async cleanApplicationQueues(applicationId: string): Promise<void> {
+    return this.request('/api/application.cleanQueues', 'POST', { applicationId });
+  }
+
+  async cleanComposeQueues(composeId: string): Promise<void> {
+    return this.request('/api/compose.cleanQueues', 'POST', { composeId });
+  }
+
+  async startApplication(applicationId: string): Promise<void> {
+    return this.request('/api/application.start', 'POST', { applicationId });
+  }
+
+  async stopApplication(applicationId: string): Promise<void> {
+    return this.request('/api/application.stop', 'POST', { applicationId });
+  }
+
+  async reloadApplication(applicationId: string, appName: string): Promise<void> {
+    return this.request('/api/application.reload', 'POST', { applicationId, appName });
+  }
+
   async getContainersByAppLabel(appName: string, type: 'standalone' | 'swarm' = 'standalone'): Promise<Container[]> {
     return this.request<Container[]>(`/api/docker.getContainersByAppLabel?appName=${appName}&type=${type}`);
   }
 
+  async getRemoteServers(): Promise<RemoteServer[]> {
+    return this.request<RemoteServer[]>('/api/server.all');
+  }
+
+  /**
+   * Reads the latest samples from a node's monitoring agent, proxied through
+   * Dokploy so the agent port doesn't have to be reachable from here.
+   */
+  async getServerMetrics(url: string, token: string, dataPoints = 1): Promise<ServerMetrics[]> {
+    const params = new URLSearchParams({ url, token, dataPoints: dataPoints.toString() });
+    return this.request<ServerMetrics[]>(`/api/server.getServerMetrics?${params.toString()}`);
+  }
+
+  async getMetricsToken(): Promise<MetricsToken> {
+    return this.request<MetricsToken>('/api/user.getMetricsToken');
+  }
+
+  async getContainerMetrics(url: string, token: string, appName: string, dataPoints: number): Promise<ContainerMetric[]> {
+    const params = new URLSearchParams({ url, token, appName, dataPoints: dataPoints.toString() });
+    return this.request<ContainerMetric[]>(`/api/user.getContainerMetrics?${params.toString()}`);
+  }
+
   getDeploymentLogWsConfig(logPath: string): { url: string; headers: Record<string, string> } {
     const url = new URL(this.endpoint);
     const protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -76,11 +190,30 @@ export class DokployClient {
   }
 
   private async request<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+    const maxRetries = method === 'GET' ? this.options.maxRetries ?? DEFAULT_MAX_RETRIES : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(path, method, body);
+      } catch (error) {
+        if (!(error instanceof DokployApiError) || !error.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        log(`Retrying ${method} ${path} in ${delay}ms (attempt ${attempt + 1} of ${maxRetries}): ${error.message}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private send<T>(path: string, method: string, body?: unknown): Promise<T> {
     const url = new URL(path, this.endpoint);
     const isHttps = url.protocol === 'https:';
     const transport = isHttps ? https : http;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
-    log(`API Request: ${method} ${url.toString()}`);
+    log(`API Request: ${method} ${redactToken(url)}`);
 
     return new Promise((resolve, reject) => {
       const options = {
@@ -100,23 +233,33 @@ export class DokployClient {
         res.on('data', chunk => data += chunk);
         res.on('end', () => {
           log(`API Response: ${res.statusCode} (${data.length} bytes)`);
+          const status = res.statusCode ?? 0;
 
-          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+          if (status >= 200 && status < 300) {
+            if (!data.trim()) {
+              resolve(undefined as T);
+              return;
+            }
             try {
               resolve(JSON.parse(data));
             } catch {
-              resolve(data as unknown as T);
+              log(`API Invalid Response: ${data}`);
+              reject(DokployApiError.invalidResponse(status, data));
             }
           } else {
             log(`API Error Response: ${data}`);
-            reject(new Error(`API request failed: ${res.statusCode} ${data}`));
+            reject(DokployApiError.fromResponse(status, data));
           }
         });
       });
 
+      req.setTimeout(timeoutMs, () => {
+        req.destroy(DokployApiError.timeout(timeoutMs));
+      });
+
       req.on('error', (error) => {
         log(`API Request Error:`, error);
-        reject(error);
+        reject(error instanceof DokployApiError ? error : DokployApiError.network(error));
       });
 
       if (body) {
@@ -127,3 +270,12 @@ export class DokployClient {
     });
   }
 }
+
+function redactToken(url: URL): string {
+  if (!url.searchParams.has('token')) {
+    return url.toString();
+  }
+  const redacted = new URL(url.toString());
+  redacted.searchParams.set('token', '***');
+  return redacted.toString();
+}
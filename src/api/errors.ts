@@ -0,0 +1,117 @@
+import { ApiError } from '../types/dokploy';
+
+export type DokployApiErrorKind = 'http' | 'network' | 'timeout' | 'invalid-response';
+
+const TLS_ERROR_CODES = new Set([
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+  'EPROTO'
+]);
+
+export class DokployApiError extends Error implements ApiError {
+  readonly code?: string;
+  readonly issues?: string[];
+
+  constructor(
+    message: string,
+    readonly kind: DokployApiErrorKind,
+    readonly status?: number,
+    body?: Partial<ApiError>,
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = 'DokployApiError';
+    this.code = body?.code;
+    this.issues = body?.issues;
+  }
+
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+
+  get isTlsError(): boolean {
+    return this.kind === 'network' && !!this.code && TLS_ERROR_CODES.has(this.code);
+  }
+
+  static fromResponse(status: number, data: string): DokployApiError {
+    const body = parseErrorBody(data);
+    const message = body?.message || `Request failed with status ${status}`;
+    return new DokployApiError(message, 'http', status, body, status >= 500);
+  }
+
+  static network(error: Error): DokployApiError {
+    const code = (error as NodeJS.ErrnoException).code;
+    // A rejected certificate fails the same way however often it's retried
+    const retryable = !code || !TLS_ERROR_CODES.has(code);
+    return new DokployApiError(error.message, 'network', undefined, { code }, retryable);
+  }
+
+  static timeout(timeoutMs: number): DokployApiError {
+    return new DokployApiError(`Request timed out after ${timeoutMs / 1000}s`, 'timeout', undefined, { code: 'ETIMEDOUT' }, true);
+  }
+
+  static invalidResponse(status: number, data: string): DokployApiError {
+    const preview = data.length > 80 ? `${data.slice(0, 80)}...` : data;
+    return new DokployApiError(`Expected a JSON response but received: ${preview}`, 'invalid-response', status);
+  }
+}
+
+function parseErrorBody(data: string): Partial<ApiError> | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return data.trim() ? { message: data.trim() } : undefined;
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return undefined;
+  }
+
+  const raw = parsed as { message?: unknown; code?: unknown; issues?: unknown };
+  const issues = Array.isArray(raw.issues)
+    ? raw.issues.map(issue => {
+      if (typeof issue === 'string') {
+        return issue;
+      }
+      const { message, path } = issue as { message?: string; path?: unknown[] };
+      return path && path.length > 0 ? `${path.join('.')}: ${message}` : String(message);
+    })
+    : undefined;
+
+  return {
+    message: typeof raw.message === 'string' ? raw.message : undefined,
+    code: typeof raw.code === 'string' ? raw.code : undefined,
+    issues
+  };
+}
+
+export function formatApiError(error: unknown): string {
+  if (!(error instanceof DokployApiError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  switch (error.kind) {
+    case 'network':
+      if (error.isTlsError) {
+        return `TLS certificate problem (${error.code}): ${error.message}`;
+      }
+      return `Could not reach the Dokploy server (${error.code ?? error.message})`;
+    case 'timeout':
+    case 'invalid-response':
+      return error.message;
+    case 'http':
+      if (error.status === 404) {
+        return `Not found: ${error.message}`;
+      }
+      if (error.issues && error.issues.length > 0) {
+        return `${error.message} (${error.issues.join('; ')})`;
+      }
+      return error.message;
+  }
+}
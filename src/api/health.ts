@@ -0,0 +1,95 @@
+import * as http from 'http';
+import * as https from 'https';
+import WebSocket from 'ws';
+import { DokployClient } from './dokploy-client';
+import { DokployApiError, formatApiError } from './errors';
+
+export type ServerHealthStatus = 'ok' | 'auth-failed' | 'tls-error' | 'unreachable' | 'error';
+
+export interface ServerHealth {
+  status: ServerHealthStatus;
+  latencyMs?: number;
+  /** Dokploy version, when the server exposes it. */
+  version?: string;
+  message?: string;
+  checkedAt: number;
+}
+
+/**
+ * Makes one authenticated call and classifies the outcome. Servers that
+ * predate the version endpoint are checked with the project list instead.
+ */
+export async function checkServerHealth(client: DokployClient): Promise<ServerHealth> {
+  const start = Date.now();
+  try {
+    const version = await getVersion(client);
+    return { status: 'ok', latencyMs: Date.now() - start, version, checkedAt: Date.now() };
+  } catch (error) {
+    return { status: getHealthStatus(error), message: formatApiError(error), checkedAt: Date.now() };
+  }
+}
+
+async function getVersion(client: DokployClient): Promise<string | undefined> {
+  try {
+    return await client.getVersion();
+  } catch (error) {
+    if (!(error instanceof DokployApiError) || error.status !== 404) {
+      throw error;
+    }
+    await client.getProjects();
+    return undefined;
+  }
+}
+
+export function getHealthStatus(error: unknown): ServerHealthStatus {
+  if (!(error instanceof DokployApiError)) {
+    return 'error';
+  }
+  if (error.isAuthError) {
+    return 'auth-failed';
+  }
+  if (error.isTlsError) {
+    return 'tls-error';
+  }
+  return error.kind === 'network' || error.kind === 'timeout' ? 'unreachable' : 'error';
+}
+
+/**
+ * Requests the endpoint root without credentials. Any HTTP response counts,
+ * since only reachability and the TLS handshake are under test.
+ */
+export function probeHttp(endpoint: string, timeoutMs: number): Promise<{ status: number; latencyMs: number }> {
+  const url = new URL(endpoint);
+  const transport = url.protocol === 'https:' ? https : http;
+  const start = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const req = transport.get(url, res => {
+      res.resume();
+      resolve({ status: res.statusCode ?? 0, latencyMs: Date.now() - start });
+    });
+    req.setTimeout(timeoutMs, () => req.destroy(DokployApiError.timeout(timeoutMs)));
+    req.on('error', error => reject(error instanceof DokployApiError ? error : DokployApiError.network(error)));
+  });
+}
+
+/**
+ * Opens a WebSocket and closes it as soon as the upgrade succeeds.
+ */
+export function probeWebSocket(url: string, headers: Record<string, string>, timeoutMs: number): Promise<number> {
+  const start = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url, { headers, handshakeTimeout: timeoutMs });
+
+    ws.on('open', () => {
+      resolve(Date.now() - start);
+      ws.terminate();
+    });
+    ws.on('unexpected-response', (_req, res) => {
+      reject(new Error(`Upgrade rejected with HTTP ${res.statusCode}`));
+      ws.terminate();
+    });
+    ws.on('error', reject);
+  });
+}
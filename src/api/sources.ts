@@ -0,0 +1,89 @@
+import { Application, Compose } from '../types/dokploy';
+
+/**
+ * Where a service pulls its code from. `path` is the full repository path
+ * (`owner/repo`, or `group/subgroup/repo` on GitLab). `host` is only known
+ * for hosted providers and custom git URLs; self-hosted GitLab and Gitea
+ * instances leave it undefined.
+ */
+export interface GitSource {
+  host?: string;
+  path: string;
+  branch?: string;
+}
+
+export interface ParsedGitUrl {
+  host: string;
+  path: string;
+}
+
+/**
+ * Parses scp-like (`git@host:owner/repo.git`), `ssh://` and `http(s)://`
+ * remote URLs. Ports and credentials are dropped from the host.
+ */
+export function parseGitUrl(url: string): ParsedGitUrl | undefined {
+  const trimmed = url.trim();
+
+  const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/\/)\/?(.+)$/);
+  if (scpMatch && !/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return normalize(scpMatch[1], scpMatch[2]);
+  }
+
+  const urlMatch = trimmed.match(/^(?:ssh|git|https?):\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/(.+)$/i);
+  if (urlMatch) {
+    return normalize(urlMatch[1], urlMatch[2]);
+  }
+
+  return undefined;
+}
+
+function normalize(host: string, path: string): ParsedGitUrl | undefined {
+  const cleanPath = normalizePath(path);
+  if (!cleanPath.includes('/')) {
+    return undefined;
+  }
+  return { host: host.toLowerCase(), path: cleanPath };
+}
+
+export function normalizePath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '').replace(/\.git$/i, '');
+}
+
+export function getGitSource(service: Application | Compose): GitSource | undefined {
+  const sourceType = service.sourceType ?? (service.repository ? 'github' : undefined);
+
+  switch (sourceType) {
+    case 'github':
+      return joinSource('github.com', service.owner, service.repository, service.branch);
+    case 'gitlab':
+      return service.gitlabPathNamespace
+        ? { path: normalizePath(service.gitlabPathNamespace), branch: service.gitlabBranch ?? undefined }
+        : joinSource(undefined, service.gitlabOwner, service.gitlabRepository, service.gitlabBranch);
+    case 'bitbucket':
+      return joinSource('bitbucket.org', service.bitbucketOwner, service.bitbucketRepository, service.bitbucketBranch);
+    case 'gitea':
+      return joinSource(undefined, service.giteaOwner, service.giteaRepository, service.giteaBranch);
+    case 'git': {
+      const parsed = service.customGitUrl ? parseGitUrl(service.customGitUrl) : undefined;
+      return parsed && { ...parsed, branch: service.customGitBranch ?? undefined };
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function getSourceBranch(service: Application | Compose): string | undefined {
+  return getGitSource(service)?.branch;
+}
+
+function joinSource(
+  host: string | undefined,
+  owner: string | null | undefined,
+  repository: string | null | undefined,
+  branch: string | null | undefined
+): GitSource | undefined {
+  if (!owner || !repository) {
+    return undefined;
+  }
+  return { host, path: normalizePath(`${owner}/${repository}`), branch: branch ?? undefined };
+}
@@ -1,11 +1,24 @@
 import * as vscode from 'vscode';
-import { DeploymentsProvider } from './providers/deployments-provider';
+import { getDatabaseId, getDatabaseType } from './api/databases';
+import { getDeploymentCommitHash } from './api/deployments';
+import { DokployClient } from './api/dokploy-client';
+import { DokployApiError, formatApiError } from './api/errors';
+import { DeploymentItem, DeploymentsProvider, isCompose, ServerConnection } from './providers/deployments-provider';
+import { EnvFileSystemProvider, ENV_SCHEME, registerEnvDiagnostics } from './providers/env-file-system-provider';
+import { getLogFileName, LOG_LANGUAGE_ID, LOG_SCHEME, LogDocumentProvider } from './providers/log-document-provider';
 import { ServerItem, ServersProvider } from './providers/servers-provider';
 import { ConfigService } from './services/config-service';
+import { diagnoseConnection, formatDiagnosticReport } from './services/connection-diagnostics';
+import { DeploymentNotifier } from './services/deployment-notifier';
+import { getDomainUrl, promptDomainInput } from './services/domain-prompt';
 import { GitService } from './services/git-service';
 import { initLogger, log, showOutput } from './services/logger';
-import { Application, Deployment } from './types/dokploy';
-import { LogsWebview } from './views/logs-webview';
+import { PushWatcher } from './services/push-watcher';
+import { readWorkspaceConfig, WORKSPACE_CONFIG_GLOB, writeWorkspaceConfig } from './services/workspace-config';
+import { Application, ApplicationStatus, Compose, Database, Deployment, Domain, DokployServerConfig } from './types/dokploy';
+import { LogsWebview, RuntimeLogsTarget } from './views/logs-webview';
+import { MetricsTarget, MetricsWebview } from './views/metrics-webview';
+import { ApplicationStatusBar } from './views/status-bar';
 
 let refreshTimer: NodeJS.Timeout | undefined;
 
@@ -18,8 +31,14 @@ export async function activate(context: vscode.ExtensionContext) {
   const configService = new ConfigService(context);
   const gitService = new GitService();
   const deploymentsProvider = new DeploymentsProvider(configService, gitService);
-  const serversProvider = new ServersProvider(configService);
+  const serversProvider = new ServersProvider(configService, deploymentsProvider);
   const logsWebview = new LogsWebview(context.extensionUri);
+  logsWebview.setMaxLines(configService.getMaxLogLines());
+  const logDocumentProvider = new LogDocumentProvider(logsWebview);
+  const metricsWebview = new MetricsWebview();
+  const envFileSystemProvider = new EnvFileSystemProvider(deploymentsProvider);
+  const deploymentNotifier = new DeploymentNotifier(deploymentsProvider, configService);
+  const statusBar = new ApplicationStatusBar(deploymentsProvider);
 
   const deploymentsTreeView = vscode.window.createTreeView('dokployDeployments', {
     treeDataProvider: deploymentsProvider,
@@ -31,18 +50,151 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
   await deploymentsProvider.initialize();
-  startAutoRefresh(deploymentsProvider, configService);
+  startAutoRefresh(deploymentsProvider, serversProvider, configService);
+  serversProvider.reload();
+
+  const workspaceConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_CONFIG_GLOB}`);
+
+  const pushWatcher = new PushWatcher(deploymentsProvider, configService, gitService);
+  context.subscriptions.push(pushWatcher);
+  pushWatcher.start();
 
   log('Dokploy extension activated');
 
   context.subscriptions.push(
     deploymentsTreeView,
     serversTreeView,
+    serversProvider,
+    deploymentNotifier,
+    statusBar,
+    vscode.workspace.registerFileSystemProvider(ENV_SCHEME, envFileSystemProvider, { isCaseSensitive: true }),
+    registerEnvDiagnostics(),
+    logDocumentProvider,
+    vscode.workspace.registerTextDocumentContentProvider(LOG_SCHEME, logDocumentProvider),
     vscode.commands.registerCommand('dokploy.refresh', () => {
       log('Manual refresh triggered');
-      deploymentsProvider.refresh();
+      deploymentsProvider.reload();
+    }),
+
+    vscode.commands.registerCommand('dokploy.showCurrentBranchOnly', () => configService.setCurrentBranchOnly(true)),
+
+    vscode.commands.registerCommand('dokploy.showAllBranches', () => configService.setCurrentBranchOnly(false)),
+
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('dokploy.currentBranchOnly') || event.affectsConfiguration('dokploy.browseAllProjects')) {
+        deploymentsProvider.refresh();
+      }
+      if (event.affectsConfiguration('dokploy.maxLogLines')) {
+        logsWebview.setMaxLines(configService.getMaxLogLines());
+      }
     }),
 
+    vscode.commands.registerCommand('dokploy.browseAllProjects', () => configService.setBrowseAllProjects(true)),
+
+    vscode.commands.registerCommand('dokploy.showWorkspaceApplications', () => configService.setBrowseAllProjects(false)),
+
+    vscode.commands.registerCommand('dokploy.filterProjects', async () => {
+      const text = await vscode.window.showInputBox({
+        prompt: 'Show services whose name, project or environment contains',
+        placeHolder: 'e.g. api, staging',
+        value: deploymentsProvider.getProjectFilter()
+      });
+      if (text === undefined) {
+        return;
+      }
+
+      deploymentsProvider.setProjectFilter(text);
+      deploymentsTreeView.message = text.trim() ? `Filtered by "${text.trim()}"` : undefined;
+      vscode.commands.executeCommand('setContext', 'dokploy.projectFilterActive', !!text.trim());
+    }),
+
+    vscode.commands.registerCommand('dokploy.clearProjectFilter', () => {
+      deploymentsProvider.setProjectFilter('');
+      deploymentsTreeView.message = undefined;
+      vscode.commands.executeCommand('setContext', 'dokploy.projectFilterActive', false);
+    }),
+
+    vscode.workspace.onDidChangeWorkspaceFolders(event => deploymentsProvider.updateWorkspaceFolders(event)),
+
+    workspaceConfigWatcher,
+    workspaceConfigWatcher.onDidCreate(() => deploymentsProvider.initialize()),
+    workspaceConfigWatcher.onDidChange(() => deploymentsProvider.initialize()),
+    workspaceConfigWatcher.onDidDelete(() => deploymentsProvider.initialize()),
+
+    vscode.commands.registerCommand('dokploy.linkApplication', async () => {
+      const connections = deploymentsProvider.getConnections().filter(connection => connection.projects.length > 0);
+      if (connections.length === 0) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const folders = vscode.workspace.workspaceFolders ?? [];
+      const folder = folders.length > 1
+        ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to link' })
+        : folders[0];
+      if (!folder) {
+        return;
+      }
+
+      const existing = await readWorkspaceConfig(folder);
+      const connection = connections.length > 1
+        ? (await vscode.window.showQuickPick(
+          connections.map(c => ({ label: c.server.name, description: c.server.endpoint, connection: c })),
+          { placeHolder: 'Select the server the applications run on' }
+        ))?.connection
+        : connections[0];
+      if (!connection) {
+        return;
+      }
+
+      const { server, projects } = connection;
+      const items: (vscode.QuickPickItem & { applicationId?: string; composeId?: string })[] = [];
+      for (const project of projects) {
+        for (const env of project.environments) {
+          const services = [
+            ...env.applications.map(app => ({
+              label: `$(package) ${app.name}`,
+              description: app.appName,
+              applicationId: app.applicationId,
+              picked: !!existing?.applications?.includes(app.applicationId)
+            })),
+            ...(env.compose ?? []).map(compose => ({
+              label: `$(layers) ${compose.name}`,
+              description: compose.appName,
+              composeId: compose.composeId,
+              picked: !!existing?.compose?.includes(compose.composeId)
+            }))
+          ];
+          if (services.length > 0) {
+            items.push({ label: `${project.name} / ${env.name}`, kind: vscode.QuickPickItemKind.Separator }, ...services);
+          }
+        }
+      }
+
+      const picks = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: `Select the applications deployed from ${folder.name}`
+      });
+      if (!picks) {
+        return;
+      }
+
+      const applications = picks.flatMap(pick => pick.applicationId ? [pick.applicationId] : []);
+      const compose = picks.flatMap(pick => pick.composeId ? [pick.composeId] : []);
+
+      try {
+        const uri = await writeWorkspaceConfig(folder, { ...existing, server: server.endpoint, applications, compose });
+        vscode.window.showInformationMessage(
+          `Linked ${picks.length} service${picks.length === 1 ? '' : 's'} to ${folder.name} in ${vscode.workspace.asRelativePath(uri)}`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to write the Dokploy config: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.showStatusMenu', () => statusBar.showMenu()),
+
     vscode.commands.registerCommand('dokploy.showOutput', () => {
       showOutput();
     }),
@@ -50,16 +202,30 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('dokploy.addServer', async () => {
       const server = await configService.promptAddServer();
       if (server) {
-        serversProvider.refresh();
+        serversProvider.reload();
         await deploymentsProvider.initialize();
         vscode.window.showInformationMessage(`Added server: ${server.name}`);
       }
     }),
 
-    vscode.commands.registerCommand('dokploy.viewLogs', async (arg: Deployment | { data: Deployment}) => {
-      const client = deploymentsProvider.getClient();
+    vscode.commands.registerCommand('dokploy.updateApiKey', async (item?: ServerArgument | string) => {
+      const server = (typeof item === 'string'
+        ? configService.getServers().find(s => s.id === item)
+        : getServer(item)) ?? await configService.promptSelectServer();
+      if (!server) {
+        return;
+      }
 
+      if (await configService.promptUpdateApiKey(server)) {
+        serversProvider.reload();
+        await deploymentsProvider.initialize();
+        vscode.window.showInformationMessage(`Updated API key for ${server.name}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.viewLogs', async (arg: Deployment | { data: Deployment}) => {
       const deployment = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(deployment.applicationId ?? deployment.composeId ?? '');
 
       log('arg', deployment)
       if (!client || !deployment.logPath) {
@@ -71,12 +237,134 @@ export async function activate(context: vscode.ExtensionContext) {
       logsWebview.showWithWebSocket(
         `Deployment: ${deployment.title || deployment.deploymentId.slice(0, 8)}`,
         wsConfig.url,
-        wsConfig.headers
+        wsConfig.headers,
+        deployment.logPath
+      );
+    }),
+
+    vscode.commands.registerCommand('dokploy.cancelDeployment', async (arg: Deployment | { data: Deployment }) => {
+      const deployment = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(deployment.applicationId ?? deployment.composeId ?? '');
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const title = deployment.title || deployment.deploymentId.slice(0, 8);
+      const confirm = await vscode.window.showWarningMessage(
+        `Cancel deployment "${title}"?`,
+        'Yes',
+        'No'
       );
+
+      if (confirm === 'Yes') {
+        try {
+          await client.cancelDeployment(deployment.deploymentId);
+          logsWebview.endStream(deployment.logPath, 'Deployment cancelled');
+          vscode.window.showInformationMessage(`Cancelled deployment "${title}"`);
+          deploymentsProvider.reload();
+        } catch (error) {
+          showApiError('Failed to cancel deployment', error, deploymentsProvider.getConnection(deployment.applicationId ?? deployment.composeId ?? '')?.server.id);
+        }
+      }
     }),
 
-    vscode.commands.registerCommand('dokploy.viewRuntimeLogs', async (app: Application) => {
-      const client = deploymentsProvider.getClient();
+    vscode.commands.registerCommand('dokploy.rollback', async (arg: Deployment | { data: Deployment }) => {
+      const deployment = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(deployment.applicationId ?? deployment.composeId ?? '');
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      if (!deployment.rollbackId) {
+        vscode.window.showErrorMessage('This deployment cannot be rolled back. Enable rollbacks for the application in Dokploy first.');
+        return;
+      }
+
+      const title = deployment.title || deployment.deploymentId.slice(0, 8);
+      const date = new Date(deployment.createdAt).toLocaleString();
+      const confirm = await vscode.window.showWarningMessage(
+        `Roll back to "${title}" from ${date}?`,
+        { modal: true, detail: 'The image produced by this deployment will be deployed again.' },
+        'Rollback'
+      );
+
+      if (confirm === 'Rollback') {
+        const rollbackId = deployment.rollbackId;
+        try {
+          await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Rolling back to "${title}"...` },
+            () => client.rollback(rollbackId)
+          );
+          await deploymentsProvider.reload();
+          if (deployment.applicationId) {
+            deploymentsProvider.setOptimisticStatus(deployment.applicationId, 'running');
+          }
+        } catch (error) {
+          showApiError('Failed to roll back', error, deploymentsProvider.getConnection(deployment.applicationId ?? deployment.composeId ?? '')?.server.id);
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.compareWithWorkspace', async (arg: Deployment | { data: Deployment }) => {
+      const deployment = 'data' in arg ? arg.data : arg
+      const hash = getDeploymentCommitHash(deployment);
+      if (!hash) {
+        vscode.window.showErrorMessage('This deployment does not record a git commit');
+        return;
+      }
+
+      const repoInfo = deploymentsProvider.getRepositoryFor(deployment.applicationId ?? deployment.composeId ?? '');
+      if (!repoInfo) {
+        vscode.window.showErrorMessage('This deployment does not belong to a workspace folder');
+        return;
+      }
+
+      const title = `${hash.slice(0, 7)} (deployed) ↔ HEAD`;
+      if (!await gitService.compareWithHead(hash, title, repoInfo.folder.uri.fsPath)) {
+        const choice = await vscode.window.showErrorMessage(
+          `Commit ${hash.slice(0, 7)} was not found in the local repository. Fetch from the remote and try again?`,
+          'Fetch'
+        );
+        if (choice === 'Fetch') {
+          await vscode.commands.executeCommand('git.fetch');
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.cleanQueue', async (arg: Application | Compose | { data: Application | Compose }) => {
+      const service = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(isCompose(service) ? service.composeId : service.applicationId);
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Clean the deployment queue of ${service.name}? Queued deployments will not run.`,
+        'Yes',
+        'No'
+      );
+
+      if (confirm === 'Yes') {
+        try {
+          if (isCompose(service)) {
+            await client.cleanComposeQueues(service.composeId);
+          } else {
+            await client.cleanApplicationQueues(service.applicationId);
+          }
+          vscode.window.showInformationMessage(`Cleaned deployment queue of ${service.name}`);
+          deploymentsProvider.reload();
+        } catch (error) {
+          showApiError('Failed to clean deployment queue', error, deploymentsProvider.getConnection(isCompose(service) ? service.composeId : service.applicationId)?.server.id);
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.viewRuntimeLogs', async (arg: RuntimeLogsTarget | { data: RuntimeLogsTarget }) => {
+      const app = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(app.appName);
       if (!client) {
         vscode.window.showErrorMessage('Not connected to Dokploy server');
         return;
@@ -85,18 +373,67 @@ export async function activate(context: vscode.ExtensionContext) {
       try {
         await logsWebview.showRuntimeLogs(app, client);
       } catch (error) {
-        vscode.window.showErrorMessage(`Failed to fetch runtime logs: ${error}`);
+        showApiError('Failed to fetch runtime logs', error, deploymentsProvider.getConnection(app.appName)?.server.id);
       }
     }),
 
-    vscode.commands.registerCommand('dokploy.openInBrowser', async (arg: Application | { data: Application }) => {
-      const server = configService.getActiveServer();
-      if (!server) {
-        vscode.window.showErrorMessage('No active server configured');
+    vscode.commands.registerCommand('dokploy.openLogsInEditor', async () => {
+      if (!logsWebview.hasLogs()) {
+        vscode.window.showErrorMessage('No logs are open');
+        return;
+      }
+
+      const document = await vscode.workspace.openTextDocument(logDocumentProvider.track());
+      await vscode.languages.setTextDocumentLanguage(document, LOG_LANGUAGE_ID);
+      await vscode.window.showTextDocument(document, { preview: false });
+    }),
+
+    vscode.commands.registerCommand('dokploy.saveLogsAs', async () => {
+      if (!logsWebview.hasLogs()) {
+        vscode.window.showErrorMessage('No logs are open');
+        return;
+      }
+
+      const text = logsWebview.getText();
+      const fileName = getLogFileName(logsWebview.getTitle());
+      const folder = vscode.workspace.workspaceFolders?.[0];
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+        filters: { 'Log Files': ['log', 'txt'] },
+        saveLabel: 'Save Logs'
+      });
+      if (!uri) return;
+
+      try {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+        vscode.window.showInformationMessage(`Saved logs to ${vscode.workspace.asRelativePath(uri)}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save logs: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.showMetrics', async (arg: MetricsTarget | { data: MetricsTarget }) => {
+      const app = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(app.appName);
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
         return;
       }
 
+      try {
+        await metricsWebview.show(app, client);
+      } catch (error) {
+        showApiError('Failed to load metrics', error, deploymentsProvider.getConnection(app.appName)?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.openInBrowser', async (arg: Application | { data: Application }) => {
       const app = 'data' in arg ? arg.data : arg
+      const server = deploymentsProvider.getConnection(app.applicationId)?.server;
+      if (!server) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
 
       if (!app.environmentId) {
         vscode.window.showErrorMessage('Missing environment information for this application');
@@ -111,7 +448,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
     vscode.commands.registerCommand('dokploy.redeploy', async (arg: Application | { data: Application}) => {
       const app = 'data' in arg ? arg.data : arg
-      const client = deploymentsProvider.getClient();
+      const client = deploymentsProvider.getClient(app.applicationId);
       if (!client) {
         vscode.window.showErrorMessage('Not connected to Dokploy server');
         return;
@@ -123,17 +460,230 @@ export async function activate(context: vscode.ExtensionContext) {
         'No'
       );
 
+      if (confirm === 'Yes') {
+        await runApplicationAction(deploymentsProvider, app, {
+          progressTitle: 'Redeploying',
+          errorTitle: 'Failed to redeploy',
+          status: 'running',
+          action: client => client.redeploy(app.applicationId)
+        });
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.deploy', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      await runApplicationAction(deploymentsProvider, app, {
+        progressTitle: 'Deploying',
+        errorTitle: 'Failed to deploy',
+        status: 'running',
+        action: client => client.deploy(app.applicationId)
+      });
+    }),
+
+    vscode.commands.registerCommand('dokploy.startApplication', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      await runApplicationAction(deploymentsProvider, app, {
+        progressTitle: 'Starting',
+        errorTitle: 'Failed to start',
+        status: 'done',
+        action: client => client.startApplication(app.applicationId)
+      });
+    }),
+
+    vscode.commands.registerCommand('dokploy.stopApplication', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      const confirm = await vscode.window.showWarningMessage(
+        `Stop ${app.name}?`,
+        'Yes',
+        'No'
+      );
+
+      if (confirm === 'Yes') {
+        await runApplicationAction(deploymentsProvider, app, {
+          progressTitle: 'Stopping',
+          errorTitle: 'Failed to stop',
+          status: 'idle',
+          action: client => client.stopApplication(app.applicationId)
+        });
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.reloadApplication', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      await runApplicationAction(deploymentsProvider, app, {
+        progressTitle: 'Reloading',
+        errorTitle: 'Failed to reload',
+        status: 'running',
+        action: client => client.reloadApplication(app.applicationId, app.appName)
+      });
+    }),
+
+    vscode.commands.registerCommand('dokploy.editEnvironment', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      try {
+        const document = await vscode.workspace.openTextDocument(EnvFileSystemProvider.uriFor(app.applicationId));
+        await vscode.window.showTextDocument(document);
+      } catch (error) {
+        showApiError('Failed to open environment', error, deploymentsProvider.getConnection(app.applicationId)?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.editBuildArgs', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      try {
+        const document = await vscode.workspace.openTextDocument(EnvFileSystemProvider.uriFor(app.applicationId, 'buildArgs'));
+        await vscode.window.showTextDocument(document);
+      } catch (error) {
+        showApiError('Failed to open build arguments', error, deploymentsProvider.getConnection(app.applicationId)?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.openDomain', async (arg: Domain | { data: Domain }) => {
+      const domain = 'data' in arg ? arg.data : arg
+      vscode.env.openExternal(vscode.Uri.parse(getDomainUrl(domain)));
+    }),
+
+    vscode.commands.registerCommand('dokploy.createDomain', async (arg: Application | { data: Application }) => {
+      const app = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(app.applicationId);
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const input = await promptDomainInput();
+      if (!input) {
+        return;
+      }
+
+      try {
+        await client.createDomain(app.applicationId, input);
+        vscode.window.showInformationMessage(`Added domain ${input.host} to ${app.name}`);
+        deploymentsProvider.refresh();
+      } catch (error) {
+        showApiError('Failed to create domain', error, deploymentsProvider.getConnection(app.applicationId)?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.editDomain', async (arg: Domain | { data: Domain }) => {
+      const domain = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(domain.applicationId ?? domain.composeId ?? '');
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const input = await promptDomainInput(domain);
+      if (!input) {
+        return;
+      }
+
+      try {
+        await client.updateDomain(domain.domainId, input);
+        vscode.window.showInformationMessage(`Updated domain ${input.host}`);
+        deploymentsProvider.refresh();
+      } catch (error) {
+        showApiError('Failed to update domain', error, deploymentsProvider.getConnection(domain.applicationId ?? domain.composeId ?? '')?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.deleteDomain', async (arg: Domain | { data: Domain }) => {
+      const domain = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(domain.applicationId ?? domain.composeId ?? '');
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete domain "${domain.host}"?`,
+        'Yes',
+        'No'
+      );
+
       if (confirm === 'Yes') {
         try {
-          await client.redeploy(app.applicationId);
-          vscode.window.showInformationMessage(`Redeploying ${app.name}...`);
+          await client.deleteDomain(domain.domainId);
           deploymentsProvider.refresh();
         } catch (error) {
-          vscode.window.showErrorMessage(`Failed to redeploy: ${error}`);
+          showApiError('Failed to delete domain', error, deploymentsProvider.getConnection(domain.applicationId ?? domain.composeId ?? '')?.server.id);
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.startDatabase', async (arg: Database | { data: Database }) => {
+      const database = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(getDatabaseId(database));
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      try {
+        await client.startDatabase(getDatabaseType(database), getDatabaseId(database));
+        vscode.window.showInformationMessage(`Starting ${database.name}...`);
+        deploymentsProvider.reload();
+      } catch (error) {
+        showApiError('Failed to start database', error, deploymentsProvider.getConnection(getDatabaseId(database))?.server.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.stopDatabase', async (arg: Database | { data: Database }) => {
+      const database = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(getDatabaseId(database));
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Stop ${database.name}?`,
+        'Yes',
+        'No'
+      );
+
+      if (confirm === 'Yes') {
+        try {
+          await client.stopDatabase(getDatabaseType(database), getDatabaseId(database));
+          vscode.window.showInformationMessage(`Stopping ${database.name}...`);
+          deploymentsProvider.reload();
+        } catch (error) {
+          showApiError('Failed to stop database', error, deploymentsProvider.getConnection(getDatabaseId(database))?.server.id);
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('dokploy.restartDatabase', async (arg: Database | { data: Database }) => {
+      const database = 'data' in arg ? arg.data : arg
+      const client = deploymentsProvider.getClient(getDatabaseId(database));
+      if (!client) {
+        vscode.window.showErrorMessage('Not connected to Dokploy server');
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Restart ${database.name}?`,
+        'Yes',
+        'No'
+      );
+
+      if (confirm === 'Yes') {
+        try {
+          await client.reloadDatabase(getDatabaseType(database), getDatabaseId(database), database.appName);
+          vscode.window.showInformationMessage(`Restarting ${database.name}...`);
+          deploymentsProvider.reload();
+        } catch (error) {
+          showApiError('Failed to restart database', error, deploymentsProvider.getConnection(getDatabaseId(database))?.server.id);
         }
       }
     }),
 
+    vscode.commands.registerCommand('dokploy.copyDatabasePassword', async (arg: Database | { data: Database }) => {
+      const database = 'data' in arg ? arg.data : arg
+      await vscode.env.clipboard.writeText(database.databasePassword);
+      vscode.window.showInformationMessage(`Copied password for ${database.name}`);
+    }),
+
     vscode.commands.registerCommand('dokploy.deleteServer', async (item: ServerItem) => {
       const confirm = await vscode.window.showWarningMessage(
         `Delete server "${item.server.name}"?`,
@@ -143,30 +693,113 @@ export async function activate(context: vscode.ExtensionContext) {
 
       if (confirm === 'Yes') {
         await configService.removeServer(item.server.id);
-        serversProvider.refresh();
+        serversProvider.reload();
         await deploymentsProvider.initialize();
       }
     }),
 
-    vscode.commands.registerCommand('dokploy.setActiveServer', async (item: ServerItem) => {
-      await configService.setActiveServerId(item.server.id);
-      serversProvider.refresh();
-      await deploymentsProvider.initialize();
-      vscode.window.showInformationMessage(`Active server: ${item.server.name}`);
+    vscode.commands.registerCommand('dokploy.diagnoseConnection', async (item?: ServerArgument) => {
+      const server = getServer(item) ?? await configService.promptSelectServer();
+      if (!server) {
+        return;
+      }
+
+      const checks = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Diagnosing connection to ${server.name}...` },
+        async () => diagnoseConnection(server, await configService.getApiKey(server.id), configService.getClientOptions())
+      );
+      log(formatDiagnosticReport(server, checks));
+      showOutput();
+      serversProvider.reload();
     }),
 
-    { dispose: () => logsWebview.dispose() }
+    { dispose: () => logsWebview.dispose() },
+    { dispose: () => metricsWebview.dispose() }
   );
 }
 
-function startAutoRefresh(provider: DeploymentsProvider, configService: ConfigService): void {
+/** Server commands are invoked from both views and from the server error item. */
+type ServerArgument = ServerItem | DeploymentItem | ServerConnection;
+
+function getServer(item: ServerArgument | undefined): DokployServerConfig | undefined {
+  if (!item) {
+    return undefined;
+  }
+  if (item instanceof ServerItem || 'server' in item) {
+    return item.server;
+  }
+  const data = item.data;
+  return data && 'server' in data && 'projects' in data ? data.server : undefined;
+}
+
+interface ApplicationAction {
+  progressTitle: string;
+  errorTitle: string;
+  status: ApplicationStatus;
+  action: (client: DokployClient) => Promise<void>;
+}
+
+async function runApplicationAction(
+  provider: DeploymentsProvider,
+  app: Application,
+  { progressTitle, errorTitle, status, action }: ApplicationAction
+): Promise<void> {
+  const client = provider.getClient(app.applicationId);
+  if (!client) {
+    vscode.window.showErrorMessage('Not connected to Dokploy server');
+    return;
+  }
+
+  provider.setOptimisticStatus(app.applicationId, status);
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `${progressTitle} ${app.name}...` },
+      () => action(client)
+    );
+  } catch (error) {
+    provider.clearOptimisticStatus(app.applicationId);
+    showApiError(errorTitle, error, provider.getConnection(app.applicationId)?.server.id);
+  }
+}
+
+/**
+ * Reports a failed API call. An auth error offers to update the key of the
+ * server that rejected it, or asks which server when that is unknown.
+ */
+async function showApiError(action: string, error: unknown, serverId?: string): Promise<void> {
+  log(`${action}:`, error instanceof Error ? { name: error.name, message: error.message } : error);
+
+  if (error instanceof DokployApiError && error.isAuthError) {
+    const choice = await vscode.window.showErrorMessage(
+      `${action}: API key rejected – update key?`,
+      'Update API Key'
+    );
+    if (choice === 'Update API Key') {
+      await vscode.commands.executeCommand('dokploy.updateApiKey', serverId);
+    }
+    return;
+  }
+
+  const choice = await vscode.window.showErrorMessage(`${action}: ${formatApiError(error)}`, 'Show Output');
+  if (choice === 'Show Output') {
+    showOutput();
+  }
+}
+
+function startAutoRefresh(
+  provider: DeploymentsProvider,
+  serversProvider: ServersProvider,
+  configService: ConfigService
+): void {
   if (refreshTimer) {
     clearInterval(refreshTimer);
   }
 
   const interval = configService.getRefreshInterval() * 1000;
   refreshTimer = setInterval(() => {
-    provider.refresh();
+    provider.reload();
+    serversProvider.reload();
   }, interval);
 }
 
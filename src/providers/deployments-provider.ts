@@ -1,15 +1,61 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { DATABASE_TYPES, getDatabaseId, getDatabaseLabel, getDatabaseType, getInternalConnectionInfo } from '../api/databases';
+import { getDeploymentCommitHash } from '../api/deployments';
+import { getGitSource, getSourceBranch } from '../api/sources';
 import { DokployClient } from '../api/dokploy-client';
+import { DokployApiError, formatApiError } from '../api/errors';
 import { ConfigService } from '../services/config-service';
-import { GitService, RepositoryInfo } from '../services/git-service';
+import { getDomainUrl } from '../services/domain-prompt';
+import { formatRelativeDate } from '../services/format';
+import { CommitInfo, GitService, RepositoryInfo } from '../services/git-service';
 import { log } from '../services/logger';
-import { Application, Deployment, DeploymentStatus, Environment, Project } from '../types/dokploy';
+import { readWorkspaceConfig, sameEndpoint, WorkspaceConfig } from '../services/workspace-config';
+import { Application, ApplicationStatus, Compose, Database, Deployment, DeploymentStatus, DokployServerConfig, Domain, Environment, Project } from '../types/dokploy';
 
-type TreeItemType = 'server' | 'environment' | 'application' | 'deployments-folder' | 'deployment' | 'runtime-logs' | 'no-match';
+type TreeItemType =
+  | 'server'
+  | 'server-error'
+  | 'workspace-folder'
+  | 'project'
+  | 'environment'
+  | 'application'
+  | 'compose'
+  | 'database'
+  | 'database-info'
+  | 'deployments-folder'
+  | 'deployment'
+  | 'undeployed-folder'
+  | 'commit'
+  | 'message'
+  | 'domains-folder'
+  | 'domain'
+  | 'runtime-logs'
+  | 'no-match';
 
-interface MatchedEnvironment {
+export interface MatchedEnvironment {
   environment: Environment;
   applications: Application[];
+  compose: Compose[];
+  databases: Database[];
+  /** The workspace repository the services were matched by; unset when browsing all projects. */
+  repoInfo?: RepositoryInfo;
+  server: DokployServerConfig;
+}
+
+/**
+ * A configured server with the projects from its last successful load and
+ * the error of the last failed one.
+ */
+export interface ServerConnection {
+  server: DokployServerConfig;
+  client?: DokployClient;
+  projects: Project[];
+  error?: unknown;
+}
+
+export function isCompose(service: Application | Compose): service is Compose {
+  return 'composeId' in service;
 }
 
 export class DeploymentItem extends vscode.TreeItem {
@@ -17,20 +63,29 @@ export class DeploymentItem extends vscode.TreeItem {
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly itemType: TreeItemType,
-    public readonly data?: Application | Deployment | Project | MatchedEnvironment
+    public readonly data?: Application | Compose | Database | Deployment | Domain | CommitInfo | Project | MatchedEnvironment | RepositoryInfo | ServerConnection
   ) {
     super(label, collapsibleState);
     this.contextValue = itemType;
   }
+
+  /** The server a workspace folder item is listed under when several servers are configured. */
+  connection?: ServerConnection;
 }
 
 export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<DeploymentItem | undefined>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private client: DokployClient | undefined;
+  private _onDidLoad = new vscode.EventEmitter<void>();
+  readonly onDidLoad = this._onDidLoad.event;
+
+  private connections: ServerConnection[] = [];
   private matchedEnvironments: MatchedEnvironment[] = [];
-  private repoInfo: RepositoryInfo | undefined;
+  private repositories: RepositoryInfo[] = [];
+  private workspaceConfigs = new Map<string, WorkspaceConfig>();
+  private projectFilter = '';
+  private statusOverrides = new Map<string, ApplicationStatus>();
 
   constructor(
     private configService: ConfigService,
@@ -41,106 +96,276 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  /**
+   * Re-fetches projects from every connected server so statuses reflect the
+   * servers again, dropping any optimistic statuses set since the last reload.
+   * A server that fails keeps its previous projects and records the error.
+   */
+  async reload(): Promise<void> {
+    const connected = this.connections.filter(connection => connection.client);
+    if (connected.length === 0) {
+      this.refresh();
+      return;
+    }
+
+    await Promise.all(this.repositories.map(async repoInfo => {
+      repoInfo.branch = await this.gitService.getCurrentBranch(repoInfo.folder.uri.fsPath);
+    }));
+
+    await Promise.all(connected.map(async connection => {
+      try {
+        connection.projects = await connection.client!.getProjects();
+        connection.error = undefined;
+      } catch (error) {
+        log(`Error reloading projects from ${connection.server.name}:`, error);
+        connection.error = error;
+      }
+    }));
+
+    this.matchedEnvironments = this.findMatchingEnvironments();
+    this.statusOverrides.clear();
+    this._onDidLoad.fire();
+    this.refresh();
+  }
+
+  setOptimisticStatus(applicationId: string, status: ApplicationStatus): void {
+    this.statusOverrides.set(applicationId, status);
+    this.refresh();
+  }
+
+  clearOptimisticStatus(applicationId: string): void {
+    this.statusOverrides.delete(applicationId);
+    this.refresh();
+  }
+
   async initialize(): Promise<void> {
     log('Initializing deployments provider...');
 
-    this.client = undefined;
+    this.connections = [];
     this.matchedEnvironments = [];
+    this.statusOverrides.clear();
+
+    const repositories = await this.gitService.getRepositoryInfos();
+    log('Git repositories:', repositories.map(repoInfo => ({
+      folder: repoInfo.folder.name,
+      owner: repoInfo.owner,
+      repo: repoInfo.repo,
+      branch: repoInfo.branch
+    })));
 
-    this.repoInfo = await this.gitService.getRepositoryInfo();
-    log('Git repository info:', this.repoInfo);
+    this.workspaceConfigs.clear();
+    this.repositories = await this.loadWorkspaceFolders(vscode.workspace.workspaceFolders ?? [], repositories);
 
-    const server = this.configService.getActiveServer();
-    if (!server) {
-      log('No active server configured, skipping initialization');
+    const servers = this.configService.getServers();
+    if (servers.length === 0) {
+      log('No server configured, skipping initialization');
       this.refresh();
       return;
     }
 
-    log(`Using active server: ${server.name} (${server.endpoint})`);
+    this.connections = await Promise.all(servers.map(server => this.connect(server)));
+
+    const matched = this.findMatchingEnvironments();
+    if (matched.length > 0) {
+      const totalApps = matched.reduce((sum, env) => sum + env.applications.length, 0);
+      const totalCompose = matched.reduce((sum, env) => sum + env.compose.length, 0);
+      log(`Matched ${totalApps} application(s) and ${totalCompose} compose service(s) across ${matched.length} environment(s):`, matched.map(env => ({
+        folder: env.repoInfo?.folder.name,
+        environment: env.environment.name,
+        applications: env.applications.map(app => app.name),
+        compose: env.compose.map(compose => compose.name)
+      })));
+      this.matchedEnvironments = matched;
+      this._onDidLoad.fire();
+    } else {
+      log('No matching application found on any server');
+    }
+
+    this.refresh();
+  }
+
+  private async connect(server: DokployServerConfig): Promise<ServerConnection> {
+    log(`Using server: ${server.name} (${server.endpoint})`);
 
     const apiKey = await this.configService.getApiKey(server.id);
     if (!apiKey) {
       log(`No API key found for server ${server.name}`);
-      this.refresh();
-      return;
+      return { server, projects: [], error: new Error('No API key configured') };
     }
 
     log(`API key found for server ${server.name} (length: ${apiKey.length})`);
 
-    const client = new DokployClient(server.endpoint, apiKey);
+    const client = new DokployClient(server.endpoint, apiKey, this.configService.getClientOptions());
 
     try {
       log(`Fetching projects from ${server.endpoint}...`);
       const projects = await client.getProjects();
       log(`Fetched ${projects.length} projects`);
+      this.logProjects(projects);
+      return { server, client, projects };
+    } catch (error) {
+      log(`Error fetching from server ${server.name}:`, error);
+      return { server, client, projects: [], error };
+    }
+  }
 
-      for (const project of projects) {
-        const applications = project.environments.flatMap(env => env.applications)
-        log(`Project: ${project.name}`, {
-          projectId: project.projectId,
-          applicationsCount: applications.length || 0,
-        });
+  private logProjects(projects: Project[]): void {
+    for (const project of projects) {
+      const applications = project.environments.flatMap(env => env.applications)
+      log(`Project: ${project.name}`, {
+        projectId: project.projectId,
+        applicationsCount: applications.length || 0,
+      });
 
-        for (const app of applications || []) {
-          log(`  Application: ${app.name}`, {
-            applicationId: app.applicationId,
-            repository: app.repository,
-            owner: app.owner,
-            branch: app.branch
-          });
-        }
+      for (const app of applications || []) {
+        log(`  Application: ${app.name}`, {
+          applicationId: app.applicationId,
+          sourceType: app.sourceType,
+          source: getGitSource(app)
+        });
       }
 
-      const matched = this.findMatchingEnvironments(projects);
-
-      if (matched.length > 0) {
-        const totalApps = matched.reduce((sum, env) => sum + env.applications.length, 0);
-        log(`Matched ${totalApps} application(s) across ${matched.length} environment(s):`, matched.map(env => ({
-          environment: env.environment.name,
-          applications: env.applications.map(app => app.name)
-        })));
-        this.client = client;
-        this.matchedEnvironments = matched;
-      } else {
-        log('No matching application found on this server');
+      for (const compose of project.environments.flatMap(env => env.compose ?? [])) {
+        log(`  Compose: ${compose.name}`, {
+          composeId: compose.composeId,
+          sourceType: compose.sourceType,
+          source: getGitSource(compose)
+        });
       }
-    } catch (error) {
-      log(`Error fetching from server ${server.name}:`, error);
     }
+  }
+
+  /**
+   * Applies workspace folder changes without refetching projects: removed
+   * folders drop their environments and added folders are matched against the
+   * projects from the last load.
+   */
+  async updateWorkspaceFolders(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+    if (!this.connections.some(connection => connection.client)) {
+      return this.initialize();
+    }
+
+    const removed = new Set(event.removed.map(folder => folder.uri.toString()));
+    const addedRepositories = (await Promise.all(event.added.map(folder => this.gitService.getRepositoryInfo(folder))))
+      .filter((repoInfo): repoInfo is RepositoryInfo => !!repoInfo);
+
+    removed.forEach(folder => this.workspaceConfigs.delete(folder));
+    const added = await this.loadWorkspaceFolders(event.added, addedRepositories);
+
+    this.repositories = [
+      ...this.repositories.filter(repoInfo => !removed.has(repoInfo.folder.uri.toString())),
+      ...added
+    ];
+    log('Workspace folders changed:', {
+      added: event.added.map(folder => folder.name),
+      removed: event.removed.map(folder => folder.name)
+    });
 
+    this.matchedEnvironments = this.findMatchingEnvironments();
+    this._onDidLoad.fire();
     this.refresh();
   }
 
-  private findMatchingEnvironments(projects: Project[]): MatchedEnvironment[] {
-    if (!this.repoInfo) {
+  /**
+   * Reads the workspace config of every folder. Folders without a git remote,
+   * such as apps deployed from a Docker image, only take part in matching
+   * when their config links them to services.
+   */
+  private async loadWorkspaceFolders(
+    folders: readonly vscode.WorkspaceFolder[],
+    repositories: RepositoryInfo[]
+  ): Promise<RepositoryInfo[]> {
+    const allFolders = [
+      ...folders,
+      ...repositories.map(repoInfo => repoInfo.folder).filter(folder =>
+        !folders.some(other => other.uri.toString() === folder.uri.toString())
+      )
+    ];
+
+    const result: RepositoryInfo[] = [];
+    for (const folder of allFolders) {
+      const config = await readWorkspaceConfig(folder);
+      if (config) {
+        this.workspaceConfigs.set(folder.uri.toString(), config);
+      }
+      const endpoint = config?.server;
+      if (endpoint && !this.configService.getServers().some(server => sameEndpoint(server.endpoint, endpoint))) {
+        log(`Workspace config of ${folder.name} links to ${endpoint}, which is not a configured server`);
+      }
+
+      const repoInfo = repositories.find(info => info.folder.uri.toString() === folder.uri.toString());
+      if (repoInfo) {
+        result.push(repoInfo);
+      } else if (config) {
+        result.push({
+          owner: '',
+          repo: '',
+          url: '',
+          branch: await this.gitService.getCurrentBranch(folder.uri.fsPath),
+          folder,
+          remotes: []
+        });
+      }
+    }
+    return result;
+  }
+
+  private findMatchingEnvironments(): MatchedEnvironment[] {
+    if (this.repositories.length === 0) {
       log('No repo info available for matching');
       return [];
     }
 
-    log('Searching for matching applications...', {
-      localOwner: this.repoInfo.owner,
-      localRepo: this.repoInfo.repo
-    });
-
     const matchedEnvs: MatchedEnvironment[] = [];
 
-    for (const project of projects) {
-      for (const env of project.environments) {
-        const matchedApps: Application[] = [];
+    for (const repoInfo of this.repositories) {
+      const config = this.workspaceConfigs.get(repoInfo.folder.uri.toString());
+      log('Searching for matching applications...', {
+        folder: repoInfo.folder.name,
+        localOwner: repoInfo.owner,
+        localRepo: repoInfo.repo,
+        workspaceConfig: !!config
+      });
 
-        for (const app of env.applications) {
-          const matches = this.gitService.matchesRepository(app.repository, app.owner, this.repoInfo);
-          if (matches) {
-            matchedApps.push(app);
+      // A workspace config naming a server only matches on that server
+      const projects = this.connections
+        .filter(connection => !config?.server || sameEndpoint(connection.server.endpoint, config.server))
+        .flatMap(({ server, projects }) => projects.map(project => ({ server, project })));
+
+      for (const { server, project } of projects) {
+        for (const env of project.environments) {
+          const matchedApps: Application[] = [];
+
+          for (const app of env.applications) {
+            const matches = config
+              ? !!config.applications?.includes(app.applicationId)
+              : this.gitService.matchesRepository(getGitSource(app), repoInfo);
+            if (matches) {
+              matchedApps.push(app);
+            }
           }
-        }
 
-        if (matchedApps.length > 0) {
-          matchedEnvs.push({
-            environment: env,
-            applications: matchedApps
-          });
+          const matchedCompose: Compose[] = [];
+
+          for (const compose of env.compose ?? []) {
+            const matches = config
+              ? !!config.compose?.includes(compose.composeId)
+              : this.gitService.matchesRepository(getGitSource(compose), repoInfo);
+            if (matches) {
+              matchedCompose.push(compose);
+            }
+          }
+
+          if (matchedApps.length > 0 || matchedCompose.length > 0) {
+            matchedEnvs.push({
+              environment: env,
+              applications: matchedApps,
+              compose: matchedCompose,
+              databases: DATABASE_TYPES.flatMap<Database>(type => env[type] ?? []),
+              repoInfo,
+              server
+            });
+          }
         }
       }
     }
@@ -157,6 +382,18 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
       return this.getRootItems();
     }
 
+    if (element.itemType === 'server') {
+      return this.getServerChildren(element.data as ServerConnection);
+    }
+
+    if (element.itemType === 'workspace-folder') {
+      return this.getEnvironmentItems(element.data as RepositoryInfo, element.connection);
+    }
+
+    if (element.itemType === 'project') {
+      return this.getProjectChildren(element.data as Project);
+    }
+
     if (element.itemType === 'environment') {
       return this.getEnvironmentChildren(element.data as MatchedEnvironment);
     }
@@ -165,15 +402,83 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
       return this.getApplicationChildren(element.data as Application);
     }
 
+    if (element.itemType === 'compose') {
+      return this.getComposeChildren(element.data as Compose);
+    }
+
+    if (element.itemType === 'database') {
+      return this.getDatabaseChildren(element.data as Database);
+    }
+
     if (element.itemType === 'deployments-folder') {
-      return this.getDeployments(element.data as Application);
+      return this.getDeployments(element.data as Application | Compose);
+    }
+
+    if (element.itemType === 'undeployed-folder') {
+      return this.getUndeployedCommits(element.data as Application);
+    }
+
+    if (element.itemType === 'domains-folder') {
+      return this.getDomains(element.data as Application);
     }
 
     return [];
   }
 
   private async getRootItems(): Promise<DeploymentItem[]> {
-    if (this.matchedEnvironments.length === 0) {
+    if (this.connections.length > 1) {
+      return this.connections.map(connection => this.getServerItem(connection));
+    }
+
+    return this.getServerChildren(this.connections[0]);
+  }
+
+  private getServerItem(connection: ServerConnection): DeploymentItem {
+    const { server, error } = connection;
+
+    if (error && connection.projects.length === 0) {
+      const item = new DeploymentItem(server.name, vscode.TreeItemCollapsibleState.None, 'server-error', connection);
+      const needsKey = !connection.client || (error instanceof DokployApiError && error.isAuthError);
+      item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+      item.description = formatApiError(error);
+      item.tooltip = `${server.endpoint}\n${formatApiError(error)}`;
+      item.command = needsKey
+        ? { command: 'dokploy.updateApiKey', title: 'Update API Key', arguments: [connection] }
+        : { command: 'dokploy.refresh', title: 'Retry' };
+      return item;
+    }
+
+    const item = new DeploymentItem(server.name, vscode.TreeItemCollapsibleState.Expanded, 'server', connection);
+    if (error) {
+      item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+      item.description = 'Unreachable, showing the last known state';
+      item.tooltip = `${server.endpoint}\n${formatApiError(error)}`;
+    } else {
+      const count = this.configService.getBrowseAllProjects()
+        ? connection.projects.length
+        : this.matchedEnvironments.filter(env => env.server === server).length;
+      const noun = this.configService.getBrowseAllProjects() ? 'project' : 'environment';
+      item.iconPath = new vscode.ThemeIcon('server');
+      item.description = `${count} ${noun}${count === 1 ? '' : 's'}`;
+      item.tooltip = server.endpoint;
+    }
+    return item;
+  }
+
+  private getServerChildren(connection: ServerConnection | undefined): DeploymentItem[] {
+    const loaded = !!connection?.client && !(connection.error && connection.projects.length === 0);
+    if (connection && loaded && this.configService.getBrowseAllProjects()) {
+      return this.getProjectItems(connection);
+    }
+
+    const matchedEnvironments = this.matchedEnvironments.filter(env => env.server === connection?.server);
+    if (connection && matchedEnvironments.length === 0 && this.connections.length > 1) {
+      const item = new DeploymentItem('No matching application', vscode.TreeItemCollapsibleState.None, 'message');
+      item.iconPath = new vscode.ThemeIcon('info');
+      return [item];
+    }
+
+    if (matchedEnvironments.length === 0) {
       const item = new DeploymentItem(
         'No matching application found',
         vscode.TreeItemCollapsibleState.None,
@@ -187,7 +492,139 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
       return [item];
     }
 
-    return this.matchedEnvironments.map(matchedEnv => {
+    if (this.repositories.length > 1) {
+      return this.repositories.map(repoInfo => this.getWorkspaceFolderItem(repoInfo, connection));
+    }
+
+    return this.getEnvironmentItems(this.repositories[0], connection);
+  }
+
+  /**
+   * Filters the browsed projects to services whose name, or whose project or
+   * environment name, contains the text. An empty text shows everything.
+   */
+  setProjectFilter(text: string): void {
+    this.projectFilter = text.trim().toLowerCase();
+    this.refresh();
+  }
+
+  getProjectFilter(): string {
+    return this.projectFilter;
+  }
+
+  private getProjectItems(connection: ServerConnection): DeploymentItem[] {
+    const items = connection.projects
+      .filter(project => this.getProjectEnvironments(project, connection.server).length > 0)
+      .map(project => {
+        const item = new DeploymentItem(
+          project.name,
+          this.projectFilter ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+          'project',
+          project
+        );
+        const count = project.environments.length;
+        item.iconPath = new vscode.ThemeIcon('project');
+        item.description = `${count} environment${count === 1 ? '' : 's'}`;
+        item.tooltip = project.description || project.name;
+        return item;
+      });
+
+    if (items.length === 0) {
+      const item = new DeploymentItem(
+        this.projectFilter ? `Nothing matches "${this.projectFilter}"` : 'No projects on this server',
+        vscode.TreeItemCollapsibleState.None,
+        'message'
+      );
+      item.iconPath = new vscode.ThemeIcon('info');
+      return [item];
+    }
+
+    return items;
+  }
+
+  private getProjectChildren(project: Project): DeploymentItem[] {
+    const connection = this.connections.find(c => c.projects.includes(project));
+    if (!connection) {
+      return [];
+    }
+
+    return this.getProjectEnvironments(project, connection.server).map(matchedEnv => {
+      const item = new DeploymentItem(
+        matchedEnv.environment.name,
+        this.projectFilter ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+        'environment',
+        matchedEnv
+      );
+      item.iconPath = new vscode.ThemeIcon('folder');
+      item.description = this.formatServiceCount(matchedEnv);
+      return item;
+    });
+  }
+
+  private getProjectEnvironments(project: Project, server: DokployServerConfig): MatchedEnvironment[] {
+    const includes = (...names: string[]) => names.some(name => name.toLowerCase().includes(this.projectFilter));
+
+    return project.environments.flatMap(env => {
+      const databases = DATABASE_TYPES.flatMap<Database>(type => env[type] ?? []);
+      const matchedEnv = includes(project.name, env.name)
+        ? { environment: env, applications: env.applications, compose: env.compose ?? [], databases, server }
+        : {
+          environment: env,
+          applications: env.applications.filter(app => includes(app.name, app.appName)),
+          compose: (env.compose ?? []).filter(compose => includes(compose.name, compose.appName)),
+          databases: databases.filter(database => includes(database.name, database.appName)),
+          server
+        };
+
+      const empty = matchedEnv.applications.length + matchedEnv.compose.length + matchedEnv.databases.length === 0;
+      return empty ? [] : [matchedEnv];
+    });
+  }
+
+  private getWorkspaceFolderItem(repoInfo: RepositoryInfo, connection?: ServerConnection): DeploymentItem {
+    const hasMatches = this.matchedEnvironments.some(matchedEnv =>
+      matchedEnv.repoInfo === repoInfo && matchedEnv.server === connection?.server
+    );
+    const item = new DeploymentItem(
+      repoInfo.folder.name,
+      hasMatches ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+      'workspace-folder',
+      repoInfo
+    );
+    item.iconPath = new vscode.ThemeIcon('root-folder');
+    const source = repoInfo.url ? `${repoInfo.owner}/${repoInfo.repo}` : 'Workspace config';
+    item.description = hasMatches
+      ? `${source}${repoInfo.branch ? ` · ⎇ ${repoInfo.branch}` : ''}`
+      : 'No matching application';
+    item.tooltip = repoInfo.url ? `${repoInfo.folder.uri.fsPath}\n${repoInfo.url}` : repoInfo.folder.uri.fsPath;
+    item.connection = connection;
+    return item;
+  }
+
+  private getEnvironmentItems(repoInfo: RepositoryInfo, connection?: ServerConnection): DeploymentItem[] {
+    const matchedEnvironments = this.matchedEnvironments.filter(matchedEnv =>
+      matchedEnv.repoInfo === repoInfo && matchedEnv.server === connection?.server
+    );
+    const visibleEnvironments = matchedEnvironments.filter(matchedEnv =>
+      this.getVisibleApplications(matchedEnv).length > 0 || matchedEnv.compose.length > 0
+    );
+
+    if (matchedEnvironments.length > 0 && visibleEnvironments.length === 0) {
+      const item = new DeploymentItem(
+        `No application deploys from ${repoInfo.branch}`,
+        vscode.TreeItemCollapsibleState.None,
+        'message'
+      );
+      item.description = 'Show all branches';
+      item.iconPath = new vscode.ThemeIcon('git-branch');
+      item.command = {
+        command: 'dokploy.showAllBranches',
+        title: 'Show All Branches'
+      };
+      return [item];
+    }
+
+    return visibleEnvironments.map(matchedEnv => {
       const item = new DeploymentItem(
         matchedEnv.environment.name,
         vscode.TreeItemCollapsibleState.Expanded,
@@ -195,26 +632,96 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
         matchedEnv
       );
       item.iconPath = new vscode.ThemeIcon('folder');
-      item.description = `${matchedEnv.applications.length} app${matchedEnv.applications.length > 1 ? 's' : ''}`;
+      item.description = this.formatServiceCount(matchedEnv);
       return item;
     });
   }
 
+  /**
+   * Applications of the environment with the ones tracking the current local
+   * branch first, or only those when the current-branch filter is on.
+   */
+  private getVisibleApplications(matchedEnv: MatchedEnvironment): Application[] {
+    const repoInfo = matchedEnv.repoInfo;
+    if (!repoInfo?.branch) {
+      return matchedEnv.applications;
+    }
+
+    const onCurrentBranch = (app: Application) => this.gitService.tracksCurrentBranch(getSourceBranch(app), repoInfo);
+    const applications = this.configService.getCurrentBranchOnly()
+      ? matchedEnv.applications.filter(onCurrentBranch)
+      : matchedEnv.applications;
+
+    return [...applications].sort((a, b) => Number(onCurrentBranch(b)) - Number(onCurrentBranch(a)));
+  }
+
+  private formatServiceCount(matchedEnv: MatchedEnvironment): string {
+    const parts: string[] = [];
+    const applications = this.getVisibleApplications(matchedEnv);
+    if (applications.length > 0) {
+      parts.push(`${applications.length} app${applications.length > 1 ? 's' : ''}`);
+    }
+    if (matchedEnv.compose.length > 0) {
+      parts.push(`${matchedEnv.compose.length} compose`);
+    }
+    if (matchedEnv.databases.length > 0) {
+      parts.push(`${matchedEnv.databases.length} database${matchedEnv.databases.length > 1 ? 's' : ''}`);
+    }
+    return parts.join(', ');
+  }
+
   private getEnvironmentChildren(matchedEnv: MatchedEnvironment): DeploymentItem[] {
-    return matchedEnv.applications.map(app => {
+    const appItems = this.getVisibleApplications(matchedEnv).map(app => {
       const item = new DeploymentItem(
         app.name,
         vscode.TreeItemCollapsibleState.Collapsed,
         'application',
         app
       );
-      item.iconPath = this.getStatusIcon(app.applicationStatus);
-      item.description = app.applicationStatus;
+      const status = this.getApplicationStatus(app);
+      const branch = getSourceBranch(app);
+      const onCurrentBranch = !!matchedEnv.repoInfo && this.gitService.tracksCurrentBranch(branch, matchedEnv.repoInfo);
+      item.iconPath = this.getStatusIcon(status);
+      item.description = branch
+        ? `${status} · ⎇ ${branch}${onCurrentBranch ? ' (current)' : ''}`
+        : status;
+      if (onCurrentBranch) {
+        item.tooltip = `${app.name} deploys from ${branch}, your current branch`;
+      }
+      return item;
+    });
+
+    const composeItems = matchedEnv.compose.map(compose => {
+      const item = new DeploymentItem(
+        compose.name,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'compose',
+        compose
+      );
+      item.iconPath = this.getStatusIcon(compose.composeStatus);
+      item.description = compose.composeStatus;
       return item;
     });
+
+    const databaseItems = matchedEnv.databases.map(database => {
+      const item = new DeploymentItem(
+        database.name,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'database',
+        database
+      );
+      const connection = getInternalConnectionInfo(database);
+      item.iconPath = this.getStatusIcon(database.applicationStatus);
+      item.description = `${getDatabaseLabel(getDatabaseType(database))} · ${database.applicationStatus}`;
+      item.tooltip = connection.url;
+      return item;
+    });
+
+    return [...appItems, ...composeItems, ...databaseItems];
   }
 
   private async getApplicationChildren(app: Application): Promise<DeploymentItem[]> {
+    const branch = getSourceBranch(app);
     const deploymentsFolder = new DeploymentItem(
       'Deployments',
       vscode.TreeItemCollapsibleState.Expanded,
@@ -223,6 +730,25 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
     );
     deploymentsFolder.iconPath = new vscode.ThemeIcon('folder');
 
+    const undeployedFolder = new DeploymentItem(
+      'Not Deployed Yet',
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'undeployed-folder',
+      app
+    );
+    undeployedFolder.iconPath = new vscode.ThemeIcon('git-compare');
+    undeployedFolder.tooltip = branch
+      ? `Local commits on ${branch} that are newer than the last successful deployment`
+      : 'Local commits that are newer than the last successful deployment';
+
+    const domainsFolder = new DeploymentItem(
+      'Domains',
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'domains-folder',
+      app
+    );
+    domainsFolder.iconPath = new vscode.ThemeIcon('globe');
+
     const runtimeLogs = new DeploymentItem(
       'Runtime Logs',
       vscode.TreeItemCollapsibleState.None,
@@ -236,25 +762,105 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
       arguments: [app]
     };
 
-    return [deploymentsFolder, runtimeLogs];
+    // Local commits only make sense for applications deployed from this workspace
+    return this.getRepositoryFor(app.applicationId)
+      ? [deploymentsFolder, undeployedFolder, domainsFolder, runtimeLogs]
+      : [deploymentsFolder, domainsFolder, runtimeLogs];
+  }
+
+  private getComposeChildren(compose: Compose): DeploymentItem[] {
+    const deploymentsFolder = new DeploymentItem(
+      'Deployments',
+      vscode.TreeItemCollapsibleState.Expanded,
+      'deployments-folder',
+      compose
+    );
+    deploymentsFolder.iconPath = new vscode.ThemeIcon('folder');
+
+    return [deploymentsFolder];
   }
 
-  private async getDeployments(app: Application): Promise<DeploymentItem[]> {
-    if (!this.client) {
+  private getDatabaseChildren(database: Database): DeploymentItem[] {
+    const connection = getInternalConnectionInfo(database);
+    const infoItems: DeploymentItem[] = [];
+
+    const addInfo = (label: string, value: string, icon: string) => {
+      const item = new DeploymentItem(label, vscode.TreeItemCollapsibleState.None, 'database-info', database);
+      item.description = value;
+      item.iconPath = new vscode.ThemeIcon(icon);
+      infoItems.push(item);
+      return item;
+    };
+
+    addInfo('Host', `${connection.host}:${connection.port}`, 'globe');
+    if (connection.database) {
+      addInfo('Database', connection.database, 'database');
+    }
+    if (connection.user) {
+      addInfo('User', connection.user, 'account');
+    }
+    const password = addInfo('Password', connection.password, 'key');
+    password.tooltip = 'Click to copy password';
+    password.command = {
+      command: 'dokploy.copyDatabasePassword',
+      title: 'Copy Password',
+      arguments: [database]
+    };
+
+    const runtimeLogs = new DeploymentItem(
+      'Runtime Logs',
+      vscode.TreeItemCollapsibleState.None,
+      'runtime-logs',
+      database
+    );
+    runtimeLogs.iconPath = new vscode.ThemeIcon('terminal');
+    runtimeLogs.command = {
+      command: 'dokploy.viewRuntimeLogs',
+      title: 'View Runtime Logs',
+      arguments: [database]
+    };
+
+    return [...infoItems, runtimeLogs];
+  }
+
+  private async getDeployments(service: Application | Compose): Promise<DeploymentItem[]> {
+    const serviceId = isCompose(service) ? service.composeId : service.applicationId;
+    const client = this.getClient(serviceId);
+    if (!client) {
       return [];
     }
 
+    const repoInfo = this.getRepositoryFor(serviceId);
+
     try {
-      const deployments = await this.client.getDeployments(app.applicationId);
+      const deployments = isCompose(service)
+        ? await client.getDeploymentsByCompose(service.composeId)
+        : await client.getDeployments(service.applicationId);
 
-      return deployments.slice(0, 15).map(deployment => {
+      return Promise.all(deployments.slice(0, 15).map(async deployment => {
         const item = new DeploymentItem(
           deployment.title || `Deploy ${deployment.deploymentId.slice(0, 8)}`,
           vscode.TreeItemCollapsibleState.None,
           'deployment',
           deployment
         );
-        item.description = this.formatDate(deployment.createdAt);
+        const hash = getDeploymentCommitHash(deployment);
+        const commit = hash && repoInfo ? await this.gitService.getCommit(hash, repoInfo.folder.uri.fsPath) : undefined;
+
+        const flags: string[] = [deployment.status];
+        if (deployment.status === 'done' && deployment.rollbackId) {
+          flags.push('rollback');
+        }
+        if (hash) {
+          flags.push('commit');
+        }
+        item.contextValue = ['deployment', ...flags].join('.');
+
+        const age = formatRelativeDate(deployment.createdAt);
+        item.description = hash
+          ? [hash.slice(0, 7), commit?.author, age].filter(Boolean).join(' · ')
+          : age;
+        item.tooltip = this.getDeploymentTooltip(deployment, hash, commit);
         item.iconPath = this.getDeploymentStatusIcon(deployment.status);
         item.command = {
           command: 'dokploy.viewLogs',
@@ -262,6 +868,98 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
           arguments: [deployment]
         };
         return item;
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private getDeploymentTooltip(deployment: Deployment, hash?: string, commit?: CommitInfo): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${deployment.title || deployment.deploymentId}**\n\n`);
+    tooltip.appendMarkdown(`Status: ${deployment.status} · ${new Date(deployment.createdAt).toLocaleString()}\n\n`);
+    if (hash) {
+      tooltip.appendMarkdown(`Commit: \`${commit?.hash ?? hash}\`\n\n`);
+    }
+    if (commit) {
+      tooltip.appendMarkdown(`Author: ${commit.author}\n\n`);
+      tooltip.appendText(commit.subject);
+    } else if (hash) {
+      tooltip.appendMarkdown('_Commit not found in the local repository_');
+    }
+    return tooltip;
+  }
+
+  private async getUndeployedCommits(app: Application): Promise<DeploymentItem[]> {
+    const client = this.getClient(app.applicationId);
+    const repoInfo = this.getRepositoryFor(app.applicationId);
+    if (!client || !repoInfo) {
+      return [];
+    }
+
+    const cwd = repoInfo.folder.uri.fsPath;
+
+    const message = (label: string) => {
+      const item = new DeploymentItem(label, vscode.TreeItemCollapsibleState.None, 'message');
+      item.iconPath = new vscode.ThemeIcon('info');
+      return [item];
+    };
+
+    try {
+      const deployments = await client.getDeployments(app.applicationId);
+      const lastDeployed = deployments
+        .filter(deployment => deployment.status === 'done')
+        .map(deployment => getDeploymentCommitHash(deployment))
+        .find(Boolean);
+
+      if (!lastDeployed) {
+        return message('No successful git deployment yet');
+      }
+
+      const branch = getSourceBranch(app);
+      const branchRef = branch && await this.gitService.resolveRef(branch, cwd) ? branch : 'HEAD';
+      if (!await this.gitService.resolveRef(lastDeployed, cwd)) {
+        return message(`Deployed commit ${lastDeployed.slice(0, 7)} not found locally`);
+      }
+
+      const commits = await this.gitService.getCommitsBetween(lastDeployed, branchRef, cwd);
+      if (commits.length === 0) {
+        return message('Everything is deployed');
+      }
+
+      return commits.map(commit => {
+        const item = new DeploymentItem(commit.subject, vscode.TreeItemCollapsibleState.None, 'commit', commit);
+        item.description = `${commit.hash.slice(0, 7)} · ${commit.author} · ${formatRelativeDate(commit.date)}`;
+        item.tooltip = `${commit.hash}\n${commit.author}, ${new Date(commit.date).toLocaleString()}\n\n${commit.subject}`;
+        item.iconPath = new vscode.ThemeIcon('git-commit');
+        return item;
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  private async getDomains(app: Application): Promise<DeploymentItem[]> {
+    const client = this.getClient(app.applicationId);
+    if (!client) {
+      return [];
+    }
+
+    try {
+      const domains = await client.getDomains(app.applicationId);
+
+      return domains.map(domain => {
+        const item = new DeploymentItem(
+          domain.host,
+          vscode.TreeItemCollapsibleState.None,
+          'domain',
+          domain
+        );
+        const protocol = domain.https ? `HTTPS (${domain.certificateType ?? 'none'})` : 'HTTP';
+        item.description = domain.port ? `:${domain.port} · ${protocol}` : protocol;
+        item.tooltip = `${getDomainUrl(domain)} → container port ${domain.port ?? 'default'}`;
+        item.iconPath = new vscode.ThemeIcon(domain.https ? 'lock' : 'unlock');
+        return item;
       });
     } catch {
       return [];
@@ -294,31 +992,78 @@ export class DeploymentsProvider implements vscode.TreeDataProvider<DeploymentIt
     }
   }
 
-  private formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
+  /**
+   * The connection to the server hosting a service, looked up by application,
+   * compose or database ID, or by its Docker app name.
+   */
+  getConnection(serviceId: string): ServerConnection | undefined {
+    return this.connections.find(connection =>
+      connection.projects.some(project => project.environments.some(env => hasService(env, serviceId)))
+    );
+  }
 
-    if (diffMins < 1) {
-      return 'just now';
-    }
-    if (diffMins < 60) {
-      return `${diffMins}m ago`;
-    }
-    if (diffHours < 24) {
-      return `${diffHours}h ago`;
-    }
-    return `${diffDays}d ago`;
+  getClient(serviceId: string): DokployClient | undefined {
+    return this.getConnection(serviceId)?.client;
+  }
+
+  getApplicationStatus(app: Application): ApplicationStatus {
+    return this.statusOverrides.get(app.applicationId) ?? app.applicationStatus;
+  }
+
+  getConnections(): ServerConnection[] {
+    return this.connections;
   }
 
-  getClient(): DokployClient | undefined {
-    return this.client;
+  findApplication(applicationId: string): Application | undefined {
+    return this.connections
+      .flatMap(connection => connection.projects)
+      .flatMap(project => project.environments.flatMap(env => env.applications))
+      .find(app => app.applicationId === applicationId);
   }
 
-  getMatchedApplications(): Application[] {
-    return this.matchedEnvironments.flatMap(env => env.applications);
+  getMatchedEnvironments(): MatchedEnvironment[] {
+    return this.matchedEnvironments;
   }
-}
\ No newline at end of file
+
+  /**
+   * Matched applications without duplicates, optionally limited to those
+   * matched by workspace folders inside the repository at `root`.
+   */
+  getMatchedApplications(root?: vscode.Uri): Application[] {
+    const environments = root
+      ? this.matchedEnvironments.filter(env => !!env.repoInfo && isInside(env.repoInfo.folder.uri.fsPath, root.fsPath))
+      : this.matchedEnvironments;
+
+    const applications = new Map<string, Application>();
+    for (const app of environments.flatMap(env => env.applications)) {
+      if (!applications.has(app.applicationId)) {
+        applications.set(app.applicationId, app);
+      }
+    }
+    return [...applications.values()];
+  }
+
+  /**
+   * The repository of the workspace folder an application or compose service
+   * was matched by.
+   */
+  getRepositoryFor(serviceId: string): RepositoryInfo | undefined {
+    return this.matchedEnvironments.find(env =>
+      env.applications.some(app => app.applicationId === serviceId) ||
+      env.compose.some(compose => compose.composeId === serviceId)
+    )?.repoInfo;
+  }
+}
+
+function hasService(env: Environment, serviceId: string): boolean {
+  return env.applications.some(app => app.applicationId === serviceId || app.appName === serviceId) ||
+    (env.compose ?? []).some(compose => compose.composeId === serviceId || compose.appName === serviceId) ||
+    DATABASE_TYPES.some(type => (env[type] ?? []).some(database =>
+      getDatabaseId(database) === serviceId || database.appName === serviceId
+    ));
+}
+
+function isInside(fsPath: string, root: string): boolean {
+  const relative = path.relative(root, fsPath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
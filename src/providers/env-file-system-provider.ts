@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { formatApiError } from '../api/errors';
+import { validateEnv } from '../services/env-parser';
+import { log } from '../services/logger';
+import { ApplicationEnvironment } from '../types/dokploy';
+import { DeploymentsProvider } from './deployments-provider';
+
+export const ENV_SCHEME = 'dokploy-env';
+
+type EnvFileKind = keyof ApplicationEnvironment;
+
+const FILE_NAMES: Record<EnvFileKind, string> = {
+  env: '.env',
+  buildArgs: 'build-args.env'
+};
+
+/**
+ * Exposes an application's environment variables and build arguments as
+ * `dokploy-env://<applicationId>/.env` and `dokploy-env://<applicationId>/build-args.env`.
+ */
+export class EnvFileSystemProvider implements vscode.FileSystemProvider {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  private stats = new Map<string, vscode.FileStat>();
+
+  constructor(private deploymentsProvider: DeploymentsProvider) {}
+
+  static uriFor(applicationId: string, kind: EnvFileKind = 'env'): vscode.Uri {
+    return vscode.Uri.from({ scheme: ENV_SCHEME, authority: applicationId, path: `/${FILE_NAMES[kind]}` });
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => undefined);
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    this.parseUri(uri);
+    let stat = this.stats.get(uri.toString());
+    if (!stat) {
+      stat = { type: vscode.FileType.File, ctime: Date.now(), mtime: Date.now(), size: 0 };
+      this.stats.set(uri.toString(), stat);
+    }
+    return stat;
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return Object.values(FILE_NAMES).map(name => [name, vscode.FileType.File]);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { applicationId, kind } = this.parseUri(uri);
+    const client = this.getClient(applicationId, uri);
+
+    const environment = await client.getEnvironment(applicationId);
+    const content = Buffer.from(environment[kind], 'utf8');
+    this.updateStat(uri, content.byteLength);
+    return content;
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const { applicationId, kind } = this.parseUri(uri);
+    const client = this.getClient(applicationId, uri);
+    const text = Buffer.from(content).toString('utf8');
+
+    const errors = validateEnv(text).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw vscode.FileSystemError.Unavailable(
+        `${FILE_NAMES[kind]} has ${errors.length} invalid line(s); fix them before saving`
+      );
+    }
+
+    log(`Saving ${FILE_NAMES[kind]} for application ${applicationId}`);
+
+    try {
+      const current = await client.getEnvironment(applicationId);
+      await client.saveEnvironment(applicationId, { ...current, [kind]: text });
+    } catch (error) {
+      throw vscode.FileSystemError.Unavailable(`Failed to save to Dokploy: ${formatApiError(error)}`);
+    }
+
+    this.updateStat(uri, content.byteLength);
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    this.offerRedeploy(applicationId);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  private async offerRedeploy(applicationId: string): Promise<void> {
+    const app = this.deploymentsProvider.findApplication(applicationId);
+    const name = app?.name ?? applicationId;
+
+    const choice = await vscode.window.showInformationMessage(
+      `Saved environment for ${name}. Redeploy to apply the changes?`,
+      'Redeploy'
+    );
+    if (choice !== 'Redeploy') {
+      return;
+    }
+
+    try {
+      await this.getClient(applicationId).redeploy(applicationId);
+      vscode.window.showInformationMessage(`Redeploying ${name}...`);
+      await this.deploymentsProvider.reload();
+      this.deploymentsProvider.setOptimisticStatus(applicationId, 'running');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to redeploy: ${formatApiError(error)}`);
+    }
+  }
+
+  private updateStat(uri: vscode.Uri, size: number): void {
+    const stat = this.stat(uri);
+    stat.mtime = Date.now();
+    stat.size = size;
+  }
+
+  private getClient(applicationId: string, uri?: vscode.Uri) {
+    const client = this.deploymentsProvider.getClient(applicationId);
+    if (!client) {
+      throw vscode.FileSystemError.Unavailable(uri ?? 'Not connected to Dokploy server');
+    }
+    return client;
+  }
+
+  private parseUri(uri: vscode.Uri): { applicationId: string; kind: EnvFileKind } {
+    const name = uri.path.replace(/^\//, '');
+    const kind = (Object.keys(FILE_NAMES) as EnvFileKind[]).find(k => FILE_NAMES[k] === name);
+    if (!uri.authority || !kind) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return { applicationId: uri.authority, kind };
+  }
+}
+
+export function registerEnvDiagnostics(): vscode.Disposable {
+  const diagnostics = vscode.languages.createDiagnosticCollection('dokploy-env');
+
+  const validate = (document: vscode.TextDocument) => {
+    if (document.uri.scheme !== ENV_SCHEME) {
+      return;
+    }
+
+    diagnostics.set(document.uri, validateEnv(document.getText()).map(issue => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(issue.line, issue.start, issue.line, issue.end),
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'Dokploy';
+      return diagnostic;
+    }));
+  };
+
+  vscode.workspace.textDocuments.forEach(validate);
+
+  return vscode.Disposable.from(
+    diagnostics,
+    vscode.workspace.onDidOpenTextDocument(validate),
+    vscode.workspace.onDidChangeTextDocument(event => validate(event.document)),
+    vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri))
+  );
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { LogsWebview } from '../views/logs-webview';
+
+export const LOG_SCHEME = 'dokploy-log';
+export const LOG_LANGUAGE_ID = 'dokploy-log';
+
+const UPDATE_DELAY_MS = 250;
+
+/**
+ * Turns a log panel title such as `Deployment: web` into a file name.
+ */
+export function getLogFileName(title: string): string {
+  const name = title.replace(/[\\/:*?"<>|]+/g, ' - ').replace(/\s+/g, ' ').trim();
+  return `${name || 'logs'}.log`;
+}
+
+/**
+ * Serves the log viewer's buffer as read-only `dokploy-log:/<title>.log`
+ * documents. The document of the stream being shown follows it as lines
+ * arrive; documents of earlier streams keep the text they ended with.
+ */
+export class LogDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private contents = new Map<string, string>();
+  private updateTimer: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private logsWebview: LogsWebview) {
+    this.disposables.push(
+      logsWebview.onDidChangeContent(() => this.scheduleUpdate()),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme === LOG_SCHEME) {
+          this.contents.delete(document.uri.toString());
+        }
+      })
+    );
+  }
+
+  static uriFor(title: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: LOG_SCHEME, path: `/${getLogFileName(title)}` });
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  /**
+   * Captures the current buffer and returns the URI of the document that
+   * follows it.
+   */
+  track(): vscode.Uri {
+    const uri = LogDocumentProvider.uriFor(this.logsWebview.getTitle());
+    this.contents.set(uri.toString(), this.logsWebview.getText());
+    return uri;
+  }
+
+  /**
+   * Documents re-read their whole content on every change, so bursts of
+   * lines are coalesced into one update.
+   */
+  private scheduleUpdate(): void {
+    if (this.updateTimer) return;
+
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = undefined;
+      this.update();
+    }, UPDATE_DELAY_MS);
+  }
+
+  private update(): void {
+    const uri = LogDocumentProvider.uriFor(this.logsWebview.getTitle());
+    const key = uri.toString();
+    if (!this.contents.has(key)) return;
+
+    const text = this.logsWebview.getText();
+    if (this.contents.get(key) !== text) {
+      this.contents.set(key, text);
+      this._onDidChange.fire(uri);
+    }
+  }
+
+  dispose(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = undefined;
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChange.dispose();
+  }
+}
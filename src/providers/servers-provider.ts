@@ -1,43 +1,316 @@
 import * as vscode from 'vscode';
+import { DokployClient } from '../api/dokploy-client';
+import { checkServerHealth, ServerHealth } from '../api/health';
 import { ConfigService } from '../services/config-service';
-import { DokployServerConfig } from '../types/dokploy';
+import { getMetricsUrl, resolveMetricsEndpoint } from '../services/container-metrics';
+import { log } from '../services/logger';
+import { Application, Compose, DokployServerConfig, RemoteServer, ServerMetrics } from '../types/dokploy';
+import { DeploymentsProvider, isCompose } from './deployments-provider';
+
+export type ServersTreeItem = ServerItem | NodeItem | NodeServiceItem;
 
 export class ServerItem extends vscode.TreeItem {
   constructor(
     public readonly server: DokployServerConfig,
-    public readonly isActive: boolean
+    public readonly health?: ServerHealth,
+    hasChildren = false
   ) {
-    super(server.name, vscode.TreeItemCollapsibleState.None);
+    super(server.name, hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
     this.contextValue = 'server';
-    this.description = isActive ? `${server.endpoint} (active)` : server.endpoint;
-    this.iconPath = isActive
+    this.description = health ? `${getHealthLabel(health)} · ${server.endpoint}` : server.endpoint;
+    this.iconPath = getHealthIcon(health) ?? (health?.status === 'ok'
       ? new vscode.ThemeIcon('server-environment', new vscode.ThemeColor('charts.green'))
-      : new vscode.ThemeIcon('server');
+      : new vscode.ThemeIcon('server'));
+    if (health) {
+      this.tooltip = getHealthTooltip(server, health);
+    }
+  }
+}
+
+/**
+ * A remote node of a Dokploy instance, or the instance's own host when
+ * `node` is undefined, with the matched services deployed to it.
+ */
+export class NodeItem extends vscode.TreeItem {
+  constructor(
+    public readonly server: DokployServerConfig,
+    public readonly node: RemoteServer | undefined,
+    public readonly services: (Application | Compose)[],
+    metrics?: ServerMetrics
+  ) {
+    super(node?.name ?? 'Dokploy host', services.length > 0
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None);
+    this.contextValue = node ? 'remote-server' : 'host-server';
+
+    const parts = node ? [node.ipAddress, node.serverStatus] : [];
+    if (metrics) {
+      parts.push(formatMetricsSummary(metrics));
+    }
+    this.description = parts.join(' · ');
+
+    const active = !node || node.serverStatus === 'active';
+    this.iconPath = active
+      ? new vscode.ThemeIcon('vm-active', new vscode.ThemeColor('charts.green'))
+      : new vscode.ThemeIcon('vm-outline');
+    this.tooltip = getNodeTooltip(node, services, metrics);
+  }
+}
+
+export class NodeServiceItem extends vscode.TreeItem {
+  constructor(public readonly service: Application | Compose) {
+    super(service.name, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = isCompose(service) ? 'node-compose' : 'node-application';
+    this.description = service.appName;
+    this.iconPath = new vscode.ThemeIcon(isCompose(service) ? 'layers' : 'package');
   }
 }
 
-export class ServersProvider implements vscode.TreeDataProvider<ServerItem> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<ServerItem | undefined>();
+export function formatMetricsSummary(metrics: ServerMetrics): string {
+  return `CPU ${formatPercent(metrics.cpu)} · Mem ${formatPercent(metrics.memUsed)} · Disk ${formatPercent(metrics.diskUsed)}`;
+}
+
+function formatPercent(value: number | string): string {
+  const percent = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(percent) ? `${Math.round(percent)}%` : '?';
+}
+
+function getNodeTooltip(
+  node: RemoteServer | undefined,
+  services: (Application | Compose)[],
+  metrics: ServerMetrics | undefined
+): vscode.MarkdownString {
+  const lines = node
+    ? [`**${node.name}**`, '', `${node.username}@${node.ipAddress}:${node.port}`, `Status: ${node.serverStatus}`]
+    : ['**Dokploy host**', '', 'Services deployed to the Dokploy instance itself'];
+  if (node?.serverType) {
+    lines.push(`Type: ${node.serverType}`);
+  }
+  if (metrics) {
+    lines.push(`CPU: ${formatPercent(metrics.cpu)}`);
+    lines.push(metrics.memUsedGB !== undefined && metrics.memTotal !== undefined
+      ? `Memory: ${formatPercent(metrics.memUsed)} (${metrics.memUsedGB} of ${metrics.memTotal} GB)`
+      : `Memory: ${formatPercent(metrics.memUsed)}`);
+    lines.push(metrics.totalDisk !== undefined
+      ? `Disk: ${formatPercent(metrics.diskUsed)} of ${metrics.totalDisk} GB`
+      : `Disk: ${formatPercent(metrics.diskUsed)}`);
+  } else if (node) {
+    lines.push('Monitoring not configured');
+  }
+  lines.push(`Matched services: ${services.length}`);
+  return new vscode.MarkdownString(lines.join('  \n'));
+}
+
+function getHealthLabel(health: ServerHealth): string {
+  switch (health.status) {
+    case 'ok': return `${health.latencyMs}ms`;
+    case 'auth-failed': return 'auth failed';
+    case 'tls-error': return 'TLS error';
+    case 'unreachable': return 'unreachable';
+    default: return 'error';
+  }
+}
+
+function getHealthIcon(health: ServerHealth | undefined): vscode.ThemeIcon | undefined {
+  switch (health?.status) {
+    case 'auth-failed': return new vscode.ThemeIcon('key', new vscode.ThemeColor('charts.red'));
+    case 'tls-error': return new vscode.ThemeIcon('lock', new vscode.ThemeColor('charts.yellow'));
+    case 'unreachable':
+    case 'error': return new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('charts.red'));
+    default: return undefined;
+  }
+}
+
+function getHealthTooltip(server: DokployServerConfig, health: ServerHealth): vscode.MarkdownString {
+  const lines = [`**${server.name}**`, '', server.endpoint, ''];
+  lines.push(`Status: ${health.status === 'ok' ? 'reachable' : getHealthLabel(health)}`);
+  if (health.version) {
+    lines.push(`Version: ${health.version}`);
+  }
+  if (health.latencyMs !== undefined) {
+    lines.push(`Latency: ${health.latencyMs}ms`);
+  }
+  if (health.message) {
+    lines.push(`Error: ${health.message}`);
+  }
+  lines.push(`Checked: ${new Date(health.checkedAt).toLocaleTimeString()}`);
+  return new vscode.MarkdownString(lines.join('  \n'));
+}
+
+export class ServersProvider implements vscode.TreeDataProvider<ServersTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<ServersTreeItem | undefined>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  constructor(private configService: ConfigService) {}
+  private health = new Map<string, ServerHealth>();
+  /** Remote nodes by configured server ID. */
+  private nodes = new Map<string, RemoteServer[]>();
+  /** Latest monitoring sample by remote node ID. */
+  private metrics = new Map<string, ServerMetrics>();
+  /** Latest monitoring sample of the Dokploy host by configured server ID. */
+  private hostMetrics = new Map<string, ServerMetrics>();
+  private subscription: vscode.Disposable;
+
+  constructor(private configService: ConfigService, private deploymentsProvider: DeploymentsProvider) {
+    this.subscription = deploymentsProvider.onDidLoad(() => this.refresh());
+  }
 
   refresh(): void {
     this._onDidChangeTreeData.fire(undefined);
   }
 
-  getTreeItem(element: ServerItem): vscode.TreeItem {
+  /**
+   * Probes every configured server in parallel without retries, so a dead
+   * server shows up on the next refresh instead of after the retry backoff.
+   * Reachable servers also report their remote nodes and the metrics of the
+   * host and each node.
+   */
+  async reload(): Promise<void> {
+    const servers = this.configService.getServers();
+    const options = { ...this.configService.getClientOptions(), maxRetries: 0 };
+    const health = new Map<string, ServerHealth>();
+    const nodes = new Map<string, RemoteServer[]>();
+    const metrics = new Map<string, ServerMetrics>();
+    const hostMetrics = new Map<string, ServerMetrics>();
+
+    await Promise.all(servers.map(async server => {
+      const apiKey = await this.configService.getApiKey(server.id);
+      if (!apiKey) {
+        health.set(server.id, { status: 'auth-failed', message: 'No API key stored', checkedAt: Date.now() });
+        return;
+      }
+
+      const client = new DokployClient(server.endpoint, apiKey, options);
+      const serverHealth = await checkServerHealth(client);
+      health.set(server.id, serverHealth);
+      if (serverHealth.status !== 'ok') {
+        return;
+      }
+
+      const [serverNodes, hostSample] = await Promise.all([
+        this.loadNodes(client, server),
+        this.loadHostMetrics(client, server)
+      ]);
+      nodes.set(server.id, serverNodes);
+      if (hostSample) {
+        hostMetrics.set(server.id, hostSample);
+      }
+      await Promise.all(serverNodes.map(async node => {
+        const sample = await this.loadMetrics(client, node);
+        if (sample) {
+          metrics.set(node.serverId, sample);
+        }
+      }));
+    }));
+
+    this.health = health;
+    this.nodes = nodes;
+    this.metrics = metrics;
+    this.hostMetrics = hostMetrics;
+    this.refresh();
+  }
+
+  private async loadNodes(client: DokployClient, server: DokployServerConfig): Promise<RemoteServer[]> {
+    try {
+      return await client.getRemoteServers() ?? [];
+    } catch (error) {
+      log(`Error loading remote servers of ${server.name}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  private async loadMetrics(client: DokployClient, node: RemoteServer): Promise<ServerMetrics | undefined> {
+    const config = node.metricsConfig?.server;
+    if (!config?.token || node.serverStatus !== 'active') {
+      return undefined;
+    }
+
+    try {
+      const samples = await client.getServerMetrics(getMetricsUrl(node.ipAddress, config.port), config.token);
+      return samples?.[samples.length - 1];
+    } catch (error) {
+      log(`Error loading metrics of ${node.name}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private async loadHostMetrics(client: DokployClient, server: DokployServerConfig): Promise<ServerMetrics | undefined> {
+    try {
+      const endpoint = await resolveMetricsEndpoint(client);
+      if (!endpoint) {
+        return undefined;
+      }
+      const samples = await client.getServerMetrics(endpoint.url, endpoint.token);
+      return samples?.[samples.length - 1];
+    } catch (error) {
+      log(`Error loading host metrics of ${server.name}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  getHealth(serverId: string): ServerHealth | undefined {
+    return this.health.get(serverId);
+  }
+
+  getTreeItem(element: ServersTreeItem): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(): Promise<ServerItem[]> {
+  async getChildren(element?: ServersTreeItem): Promise<ServersTreeItem[]> {
+    if (element instanceof ServerItem) {
+      return this.getNodeItems(element.server);
+    }
+    if (element instanceof NodeItem) {
+      return element.services.map(service => new NodeServiceItem(service));
+    }
+    if (element) {
+      return [];
+    }
+
     const servers = this.configService.getServers();
 
     if (servers.length === 0) {
       return [];
     }
 
-    const activeServerId = this.configService.getActiveServerId();
-    return servers.map(server => new ServerItem(server, server.id === activeServerId));
+    return servers.map(server => new ServerItem(
+      server,
+      this.health.get(server.id),
+      this.getNodeItems(server).length > 0
+    ));
   }
+
+  /**
+   * Lists the remote nodes with the matched services deployed to each, and
+   * the Dokploy host itself when matched services run there or it reports
+   * metrics.
+   */
+  private getNodeItems(server: DokployServerConfig): NodeItem[] {
+    const services = this.deploymentsProvider.getMatchedEnvironments()
+      .filter(env => env.server.id === server.id)
+      .flatMap(env => [...env.applications, ...env.compose]);
+    const unique = [...new Map(services.map(service => [getServiceId(service), service])).values()];
+
+    const items = (this.nodes.get(server.id) ?? []).map(node => new NodeItem(
+      server,
+      node,
+      unique.filter(service => service.serverId === node.serverId),
+      this.metrics.get(node.serverId)
+    ));
+
+    const onHost = unique.filter(service => !service.serverId);
+    const hostMetrics = this.hostMetrics.get(server.id);
+    if (onHost.length > 0 || hostMetrics) {
+      items.unshift(new NodeItem(server, undefined, onHost, hostMetrics));
+    }
+    return items;
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+function getServiceId(service: Application | Compose): string {
+  return isCompose(service) ? service.composeId : service.applicationId;
 }
@@ -1,8 +1,21 @@
 import * as vscode from 'vscode';
+import { DokployClient, DokployClientOptions } from '../api/dokploy-client';
+import { checkServerHealth } from '../api/health';
 import { DokployServerConfig } from '../types/dokploy';
+import { normalizeEndpoint } from './connection-diagnostics';
 
 const API_KEY_PREFIX = 'dokploy.apiKey.';
 
+export type FollowPushMode = 'off' | 'notify' | 'openLogs';
+
+export type NotificationTransition =
+  | 'deploymentSucceeded'
+  | 'deploymentFailed'
+  | 'applicationError'
+  | 'applicationStopped';
+
+const DEFAULT_NOTIFICATIONS: NotificationTransition[] = ['deploymentSucceeded', 'deploymentFailed', 'applicationError'];
+
 export class ConfigService {
   private secrets: vscode.SecretStorage;
 
@@ -17,14 +30,9 @@ export class ConfigService {
 
   async addServer(server: DokployServerConfig, apiKey: string): Promise<void> {
     const servers = this.getServers();
-    const isFirstServer = servers.length === 0;
     servers.push(server);
     await this.updateServers(servers);
     await this.secrets.store(`${API_KEY_PREFIX}${server.id}`, apiKey);
-
-    if (isFirstServer) {
-      await this.setActiveServerId(server.id);
-    }
   }
 
   async updateServer(server: DokployServerConfig, apiKey?: string): Promise<void> {
@@ -43,11 +51,6 @@ export class ConfigService {
     const servers = this.getServers().filter(s => s.id !== serverId);
     await this.updateServers(servers);
     await this.secrets.delete(`${API_KEY_PREFIX}${serverId}`);
-
-    if (this.getActiveServerId() === serverId) {
-      const newActive = servers.length > 0 ? servers[0].id : undefined;
-      await this.setActiveServerId(newActive);
-    }
   }
 
   async getApiKey(serverId: string): Promise<string | undefined> {
@@ -59,22 +62,48 @@ export class ConfigService {
     return config.get<number>('refreshInterval', 30);
   }
 
-  getActiveServerId(): string | undefined {
+  getMaxLogLines(): number {
     const config = vscode.workspace.getConfiguration('dokploy');
-    return config.get<string>('activeServerId');
+    return config.get<number>('maxLogLines', 10000);
   }
 
-  async setActiveServerId(serverId: string | undefined): Promise<void> {
+  getClientOptions(): DokployClientOptions {
     const config = vscode.workspace.getConfiguration('dokploy');
-    await config.update('activeServerId', serverId, vscode.ConfigurationTarget.Global);
+    return {
+      timeoutMs: config.get<number>('requestTimeout', 30) * 1000,
+      maxRetries: config.get<number>('maxRetries', 3)
+    };
   }
 
-  getActiveServer(): DokployServerConfig | undefined {
-    const activeId = this.getActiveServerId();
-    if (!activeId) {
-      return undefined;
-    }
-    return this.getServers().find(s => s.id === activeId);
+  getFollowPushMode(): FollowPushMode {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    return config.get<FollowPushMode>('followPushedDeployments', 'notify');
+  }
+
+  getNotificationTransitions(environmentName: string): NotificationTransition[] {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    const notifications = config.get<Record<string, NotificationTransition[]>>('notifications', {});
+    return notifications[environmentName] ?? notifications['*'] ?? DEFAULT_NOTIFICATIONS;
+  }
+
+  getCurrentBranchOnly(): boolean {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    return config.get<boolean>('currentBranchOnly', false);
+  }
+
+  async setCurrentBranchOnly(enabled: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    await config.update('currentBranchOnly', enabled, vscode.ConfigurationTarget.Workspace);
+  }
+
+  getBrowseAllProjects(): boolean {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    return config.get<boolean>('browseAllProjects', false);
+  }
+
+  async setBrowseAllProjects(enabled: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('dokploy');
+    await config.update('browseAllProjects', enabled, vscode.ConfigurationTarget.Workspace);
   }
 
   private async updateServers(servers: DokployServerConfig[]): Promise<void> {
@@ -109,10 +138,16 @@ export class ConfigService {
       validateInput: (value) => {
         try {
           new URL(value);
-          return null;
         } catch {
           return 'Please enter a valid URL';
         }
+        if (/\/api\/?$/i.test(value.trim())) {
+          return {
+            message: `The "/api" suffix is added automatically and will be removed: ${normalizeEndpoint(value)}`,
+            severity: vscode.InputBoxValidationSeverity.Warning
+          };
+        }
+        return null;
       }
     });
     if (!endpoint) {
@@ -128,10 +163,14 @@ export class ConfigService {
       return undefined;
     }
 
+    if (!await this.testConnection(normalizeEndpoint(endpoint), apiKey)) {
+      return undefined;
+    }
+
     if (existingServer) {
       const updatedServer: DokployServerConfig = {
         ...existingServer,
-        endpoint: endpoint.replace(/\/$/, '')
+        endpoint: normalizeEndpoint(endpoint)
       };
       await this.updateServer(updatedServer, apiKey);
       return updatedServer;
@@ -140,13 +179,53 @@ export class ConfigService {
     const server: DokployServerConfig = {
       id: crypto.randomUUID(),
       name,
-      endpoint: endpoint.replace(/\/$/, '')
+      endpoint: normalizeEndpoint(endpoint)
     };
 
     await this.addServer(server, apiKey);
     return server;
   }
 
+  /**
+   * Makes a live call with the new credentials. Returns false when the user
+   * cancels after a failed check, true when the server should be saved.
+   */
+  private async testConnection(endpoint: string, apiKey: string): Promise<boolean> {
+    const client = new DokployClient(endpoint, apiKey, { ...this.getClientOptions(), maxRetries: 0 });
+    const health = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Connecting to ${endpoint}...` },
+      () => checkServerHealth(client)
+    );
+
+    if (health.status === 'ok') {
+      const version = health.version ? `Dokploy ${health.version}` : 'Dokploy';
+      vscode.window.showInformationMessage(`Connected to ${version} at ${endpoint} (${health.latencyMs}ms)`);
+      return true;
+    }
+
+    const reason = health.status === 'auth-failed' ? 'API key rejected' : health.message;
+    const choice = await vscode.window.showWarningMessage(
+      `Could not connect to ${endpoint}: ${reason}`,
+      'Save Anyway',
+      'Cancel'
+    );
+    return choice === 'Save Anyway';
+  }
+
+  async promptUpdateApiKey(server: DokployServerConfig): Promise<boolean> {
+    const apiKey = await vscode.window.showInputBox({
+      prompt: `New API key for ${server.name}`,
+      password: true,
+      placeHolder: 'Enter your Dokploy API key'
+    });
+    if (!apiKey) {
+      return false;
+    }
+
+    await this.updateServer(server, apiKey);
+    return true;
+  }
+
   async promptSelectServer(): Promise<DokployServerConfig | undefined> {
     const servers = this.getServers();
 
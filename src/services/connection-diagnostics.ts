@@ -0,0 +1,123 @@
+import { DokployClient, DokployClientOptions } from '../api/dokploy-client';
+import { DokployApiError, formatApiError } from '../api/errors';
+import { checkServerHealth, probeHttp, probeWebSocket } from '../api/health';
+import { DokployServerConfig } from '../types/dokploy';
+
+const PROBE_TIMEOUT_MS = 10000;
+
+export interface DiagnosticCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+  hint?: string;
+}
+
+/**
+ * Strips a trailing slash and an `/api` suffix, which the client adds itself.
+ */
+export function normalizeEndpoint(value: string): string {
+  return value.trim().replace(/\/+$/, '').replace(/\/api$/i, '');
+}
+
+/**
+ * Runs the endpoint, HTTP, authentication, project and WebSocket checks in
+ * order, skipping the ones that cannot succeed after an earlier failure.
+ */
+export async function diagnoseConnection(
+  server: DokployServerConfig,
+  apiKey: string | undefined,
+  options: DokployClientOptions
+): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [];
+
+  let url: URL;
+  try {
+    url = new URL(server.endpoint);
+  } catch {
+    checks.push({ name: 'Endpoint', ok: false, detail: `"${server.endpoint}" is not a valid URL` });
+    return checks;
+  }
+
+  const normalized = normalizeEndpoint(server.endpoint);
+  checks.push(normalized === server.endpoint.replace(/\/+$/, '')
+    ? { name: 'Endpoint', ok: true, detail: server.endpoint }
+    : { name: 'Endpoint', ok: false, detail: server.endpoint, hint: `Remove the "/api" suffix: use ${normalized}` });
+  if (url.protocol === 'http:' && !['localhost', '127.0.0.1'].includes(url.hostname)) {
+    checks.push({ name: 'Transport', ok: true, detail: 'Plain HTTP', hint: 'The API key is sent unencrypted; prefer HTTPS' });
+  }
+
+  try {
+    const { status, latencyMs } = await probeHttp(normalized, PROBE_TIMEOUT_MS);
+    checks.push({ name: 'HTTP', ok: true, detail: `HTTP ${status} in ${latencyMs}ms` });
+  } catch (error) {
+    const tls = error instanceof DokployApiError && error.isTlsError;
+    checks.push({
+      name: 'HTTP',
+      ok: false,
+      detail: formatApiError(error),
+      hint: tls
+        ? 'The server certificate is not trusted; renew it or install the issuing CA'
+        : 'Check the URL, DNS and that the server is running and reachable from this machine'
+    });
+    return checks;
+  }
+
+  if (!apiKey) {
+    checks.push({ name: 'Authentication', ok: false, detail: 'No API key stored', hint: 'Run "Dokploy: Update API Key"' });
+    return checks;
+  }
+
+  const client = new DokployClient(normalized, apiKey, { ...options, maxRetries: 0 });
+  const health = await checkServerHealth(client);
+  if (health.status !== 'ok') {
+    checks.push({
+      name: 'Authentication',
+      ok: false,
+      detail: health.message ?? health.status,
+      hint: health.status === 'auth-failed'
+        ? 'The API key was rejected; generate a new one in Dokploy under Settings → Profile'
+        : 'The endpoint does not answer like a Dokploy API; check it points at the Dokploy dashboard URL'
+    });
+    return checks;
+  }
+  checks.push({
+    name: 'Authentication',
+    ok: true,
+    detail: `${health.version ? `Dokploy ${health.version}` : 'Accepted'} in ${health.latencyMs}ms`
+  });
+
+  try {
+    const projects = await client.getProjects();
+    checks.push({ name: 'Projects', ok: true, detail: `${projects.length} project${projects.length === 1 ? '' : 's'} visible` });
+  } catch (error) {
+    checks.push({ name: 'Projects', ok: false, detail: formatApiError(error), hint: 'The API key may lack access to projects' });
+  }
+
+  const ws = client.getDeploymentLogWsConfig('');
+  try {
+    const latencyMs = await probeWebSocket(ws.url, ws.headers, PROBE_TIMEOUT_MS);
+    checks.push({ name: 'WebSocket', ok: true, detail: `Upgrade accepted in ${latencyMs}ms` });
+  } catch (error) {
+    checks.push({
+      name: 'WebSocket',
+      ok: false,
+      detail: error instanceof Error ? error.message : String(error),
+      hint: 'Live logs need WebSockets; make sure a reverse proxy forwards Upgrade and Connection headers'
+    });
+  }
+
+  return checks;
+}
+
+export function formatDiagnosticReport(server: DokployServerConfig, checks: DiagnosticCheck[]): string {
+  const lines = [`Connection diagnostics for ${server.name} (${server.endpoint})`];
+  for (const check of checks) {
+    lines.push(`  ${check.ok ? '✓' : '✗'} ${check.name}: ${check.detail}`);
+    if (check.hint) {
+      lines.push(`      → ${check.hint}`);
+    }
+  }
+  const failed = checks.filter(check => !check.ok).length;
+  lines.push(failed === 0 ? 'All checks passed' : `${failed} check${failed === 1 ? '' : 's'} failed`);
+  return lines.join('\n');
+}
@@ -0,0 +1,162 @@
+import { DokployClient } from '../api/dokploy-client';
+import { ContainerMetric, RemoteServer } from '../types/dokploy';
+
+const DEFAULT_REFRESH_RATE_S = 30;
+const MAX_HISTORY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * A container sample with every size converted to megabytes. Network and
+ * block I/O are cumulative counters; the rates in MB/s are per interval since
+ * the previous sample and missing on the first one.
+ */
+export interface MetricsSample {
+  time: number;
+  cpu: number;
+  memoryMb: number;
+  memoryPercent: number;
+  networkInMb: number;
+  networkOutMb: number;
+  blockReadMb: number;
+  blockWriteMb: number;
+  networkInRate?: number;
+  networkOutRate?: number;
+  blockReadRate?: number;
+  blockWriteRate?: number;
+}
+
+const RATE_COUNTERS = [
+  ['networkInMb', 'networkInRate'],
+  ['networkOutMb', 'networkOutRate'],
+  ['blockReadMb', 'blockReadRate'],
+  ['blockWriteMb', 'blockWriteRate']
+] as const;
+
+export interface MetricsEndpoint {
+  url: string;
+  token: string;
+  refreshRateS: number;
+}
+
+export function getMetricsUrl(host: string, port: number): string {
+  return `http://${host}:${port}/metrics`;
+}
+
+/**
+ * Finds the monitoring agent of the node a service runs on: the remote
+ * server named by `serverId`, or the Dokploy host itself.
+ */
+export async function resolveMetricsEndpoint(client: DokployClient, serverId?: string): Promise<MetricsEndpoint | undefined> {
+  let host: string | null | undefined;
+  let config: NonNullable<RemoteServer['metricsConfig']>['server'];
+
+  if (serverId) {
+    const node = (await client.getRemoteServers()).find(server => server.serverId === serverId);
+    host = node?.ipAddress;
+    config = node?.metricsConfig?.server;
+  } else {
+    const metricsToken = await client.getMetricsToken();
+    host = metricsToken.serverIp;
+    config = metricsToken.metricsConfig?.server;
+  }
+
+  if (!host || !config?.token) {
+    return undefined;
+  }
+  return {
+    url: getMetricsUrl(host, config.port),
+    token: config.token,
+    refreshRateS: config.refreshRate ?? DEFAULT_REFRESH_RATE_S
+  };
+}
+
+export function toSample(metric: ContainerMetric): MetricsSample {
+  return {
+    time: new Date(metric.timestamp).getTime(),
+    cpu: toNumber(metric.cpu),
+    memoryMb: toMegabytes(metric.memory.used, metric.memory.usedUnit),
+    memoryPercent: toNumber(metric.memory.percentage),
+    networkInMb: toMegabytes(metric.network.input, metric.network.inputUnit),
+    networkOutMb: toMegabytes(metric.network.output, metric.network.outputUnit),
+    blockReadMb: toMegabytes(metric.blockIO.read, metric.blockIO.readUnit),
+    blockWriteMb: toMegabytes(metric.blockIO.write, metric.blockIO.writeUnit)
+  };
+}
+
+function toNumber(value: number | string): number {
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+const UNIT_MEGABYTES: Record<string, number> = {
+  b: 1 / (1000 * 1000),
+  kb: 1 / 1000,
+  mb: 1,
+  gb: 1000,
+  tb: 1000 * 1000,
+  kib: 1024 / (1000 * 1000),
+  mib: (1024 * 1024) / (1000 * 1000),
+  gib: (1024 * 1024 * 1024) / (1000 * 1000),
+  tib: (1024 * 1024 * 1024 * 1024) / (1000 * 1000)
+};
+
+/**
+ * Fills in the rates of each sample from the one before it. A counter that
+ * went down was reset by a container restart and counts from zero again.
+ */
+export function computeRates(history: MetricsSample[]): void {
+  for (let i = 1; i < history.length; i++) {
+    const previous = history[i - 1];
+    const sample = history[i];
+    const seconds = (sample.time - previous.time) / 1000;
+    for (const [counter, rate] of RATE_COUNTERS) {
+      const delta = sample[counter] >= previous[counter] ? sample[counter] - previous[counter] : sample[counter];
+      sample[rate] = seconds > 0 ? delta / seconds : 0;
+    }
+  }
+}
+
+export function toMegabytes(value: number | string, unit: string | undefined): number {
+  return toNumber(value) * (UNIT_MEGABYTES[(unit ?? 'mb').trim().toLowerCase()] ?? 1);
+}
+
+/**
+ * Sample history per container. Samples outlive the webview's container
+ * selection so switching back and forth keeps the charts filled.
+ */
+export class ContainerMetricsStore {
+  private samples = new Map<string, MetricsSample[]>();
+
+  add(metrics: ContainerMetric[], now = Date.now()): void {
+    for (const metric of metrics) {
+      const sample = toSample(metric);
+      if (Number.isNaN(sample.time)) {
+        continue;
+      }
+
+      const history = this.samples.get(metric.containerId) ?? [];
+      if (history.some(existing => existing.time === sample.time)) {
+        continue;
+      }
+      history.push(sample);
+      history.sort((a, b) => a.time - b.time);
+      this.samples.set(metric.containerId, history);
+    }
+
+    for (const history of this.samples.values()) {
+      computeRates(history);
+    }
+
+    for (const [containerId, history] of this.samples) {
+      const kept = history.filter(sample => now - sample.time <= MAX_HISTORY_MS);
+      if (kept.length > 0) {
+        this.samples.set(containerId, kept);
+      } else {
+        this.samples.delete(containerId);
+      }
+    }
+  }
+
+  get(containerId: string, windowMs: number, now = Date.now()): MetricsSample[] {
+    return (this.samples.get(containerId) ?? []).filter(sample => now - sample.time <= windowMs);
+  }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { DeploymentsProvider } from '../providers/deployments-provider';
+import { Application, ApplicationStatus, Deployment, DeploymentStatus, Environment } from '../types/dokploy';
+import { ConfigService, NotificationTransition } from './config-service';
+import { log } from './logger';
+
+/**
+ * Compares deployment and application statuses between polls and raises a
+ * notification for the transitions enabled for the application's environment.
+ */
+export class DeploymentNotifier implements vscode.Disposable {
+  private applicationStatuses = new Map<string, ApplicationStatus>();
+  private deploymentStatuses = new Map<string, DeploymentStatus>();
+  private runningDeployments = new Map<string, Set<string>>();
+  private subscription: vscode.Disposable;
+
+  constructor(
+    private deploymentsProvider: DeploymentsProvider,
+    private configService: ConfigService
+  ) {
+    this.subscription = deploymentsProvider.onDidLoad(() => this.check());
+  }
+
+  private async check(): Promise<void> {
+    for (const { environment, applications } of this.deploymentsProvider.getMatchedEnvironments()) {
+      for (const app of applications) {
+        await this.checkDeployments(environment, app);
+        this.checkApplication(environment, app);
+      }
+    }
+  }
+
+  private checkApplication(environment: Environment, app: Application): void {
+    const previous = this.applicationStatuses.get(app.applicationId);
+    const current = app.applicationStatus;
+    this.applicationStatuses.set(app.applicationId, current);
+
+    if (!previous || previous === current) {
+      return;
+    }
+
+    log(`Application ${app.name}: ${previous} → ${current}`);
+
+    // Deployments finishing move the application out of `running` as well;
+    // those are reported by the deployment notification instead.
+    if (previous === 'running') {
+      return;
+    }
+
+    if (current === 'error') {
+      this.notify(environment, app, 'applicationError', `${app.name} is in an error state`, 'error');
+    } else if (current === 'idle') {
+      this.notify(environment, app, 'applicationStopped', `${app.name} was stopped`, 'warning');
+    }
+  }
+
+  private async checkDeployments(environment: Environment, app: Application): Promise<void> {
+    const running = this.runningDeployments.get(app.applicationId) ?? new Set<string>();
+    if (app.applicationStatus !== 'running' && running.size === 0) {
+      return;
+    }
+
+    const client = this.deploymentsProvider.getClient(app.applicationId);
+    if (!client) {
+      return;
+    }
+
+    let deployments: Deployment[];
+    try {
+      deployments = (await client.getDeployments(app.applicationId)).slice(0, 5);
+    } catch (error) {
+      log(`Failed to check deployments of ${app.name}:`, error);
+      return;
+    }
+
+    running.clear();
+    for (const deployment of deployments) {
+      const previous = this.deploymentStatuses.get(deployment.deploymentId);
+      this.deploymentStatuses.set(deployment.deploymentId, deployment.status);
+
+      if (deployment.status === 'running') {
+        running.add(deployment.deploymentId);
+      }
+
+      if (previous !== 'running' || deployment.status === 'running') {
+        continue;
+      }
+
+      const title = deployment.title || deployment.deploymentId.slice(0, 8);
+      log(`Deployment ${title} of ${app.name}: ${previous} → ${deployment.status}`);
+
+      if (deployment.status === 'done') {
+        this.notify(environment, app, 'deploymentSucceeded', `${app.name} deployed successfully: ${title}`, 'info', deployment);
+      } else if (deployment.status === 'error') {
+        this.notify(environment, app, 'deploymentFailed', `${app.name} deployment failed: ${title}`, 'error', deployment);
+      }
+    }
+    this.runningDeployments.set(app.applicationId, running);
+  }
+
+  private async notify(
+    environment: Environment,
+    app: Application,
+    transition: NotificationTransition,
+    message: string,
+    severity: 'info' | 'warning' | 'error',
+    deployment?: Deployment
+  ): Promise<void> {
+    if (!this.configService.getNotificationTransitions(environment.name).includes(transition)) {
+      return;
+    }
+
+    const show = severity === 'error'
+      ? vscode.window.showErrorMessage
+      : severity === 'warning'
+        ? vscode.window.showWarningMessage
+        : vscode.window.showInformationMessage;
+
+    const actions = deployment ? ['View Logs', 'Redeploy'] : ['Redeploy'];
+    const choice = await show(`[${environment.name}] ${message}`, ...actions);
+
+    if (choice === 'View Logs' && deployment) {
+      await vscode.commands.executeCommand('dokploy.viewLogs', deployment);
+    } else if (choice === 'Redeploy') {
+      await vscode.commands.executeCommand('dokploy.redeploy', app);
+    }
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+  }
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { CertificateType, Domain, DomainInput } from '../types/dokploy';
+
+const HOST_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+export function getDomainUrl(domain: Domain): string {
+  const protocol = domain.https ? 'https' : 'http';
+  return `${protocol}://${domain.host}${domain.path && domain.path !== '/' ? domain.path : ''}`;
+}
+
+export async function promptDomainInput(existing?: Domain): Promise<DomainInput | undefined> {
+  const host = await vscode.window.showInputBox({
+    prompt: 'Host',
+    placeHolder: 'app.example.com',
+    value: existing?.host,
+    validateInput: (value) => HOST_PATTERN.test(value.trim()) ? null : 'Please enter a valid host name'
+  });
+  if (!host) {
+    return undefined;
+  }
+
+  const path = await vscode.window.showInputBox({
+    prompt: 'Path',
+    value: existing?.path ?? '/',
+    validateInput: (value) => value.startsWith('/') ? null : 'Path must start with "/"'
+  });
+  if (path === undefined) {
+    return undefined;
+  }
+
+  const port = await vscode.window.showInputBox({
+    prompt: 'Container port',
+    value: String(existing?.port ?? 3000),
+    validateInput: (value) => {
+      const port = Number(value);
+      return Number.isInteger(port) && port >= 1 && port <= 65535 ? null : 'Port must be between 1 and 65535';
+    }
+  });
+  if (!port) {
+    return undefined;
+  }
+
+  const https = await vscode.window.showQuickPick(
+    [
+      { label: 'HTTPS', value: true },
+      { label: 'HTTP only', value: false }
+    ],
+    { placeHolder: 'Protocol' }
+  );
+  if (!https) {
+    return undefined;
+  }
+
+  let certificateType: CertificateType = 'none';
+  if (https.value) {
+    const certificate = await vscode.window.showQuickPick(
+      [
+        { label: "Let's Encrypt", value: 'letsencrypt' as const },
+        { label: 'None', description: 'Certificate is provided outside of Dokploy', value: 'none' as const },
+        { label: 'Custom', description: 'Use a custom certificate resolver', value: 'custom' as const }
+      ],
+      { placeHolder: 'Certificate provider' }
+    );
+    if (!certificate) {
+      return undefined;
+    }
+    certificateType = certificate.value;
+  }
+
+  return {
+    host: host.trim(),
+    path,
+    port: Number(port),
+    https: https.value,
+    certificateType
+  };
+}
@@ -0,0 +1,98 @@
+export type EnvIssueSeverity = 'error' | 'warning';
+
+export interface EnvIssue {
+  line: number;
+  start: number;
+  end: number;
+  message: string;
+  severity: EnvIssueSeverity;
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+export function validateEnv(text: string): EnvIssue[] {
+  const issues: EnvIssue[] = [];
+  const seen = new Map<string, number>();
+  const lines = text.split(/\r?\n/);
+
+  for (let line = 0; line < lines.length; line++) {
+    const rawLine = lines[line];
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const start = rawLine.length - rawLine.trimStart().length;
+    const end = rawLine.trimEnd().length;
+    const content = trimmed.replace(/^export\s+/, '');
+    const separator = content.indexOf('=');
+
+    if (separator === -1) {
+      issues.push({ line, start, end, message: 'Expected KEY=value', severity: 'error' });
+      continue;
+    }
+
+    const key = content.slice(0, separator).trim();
+    if (!KEY_PATTERN.test(key)) {
+      issues.push({ line, start, end, message: `Invalid variable name "${key}"`, severity: 'error' });
+      continue;
+    }
+
+    const previous = seen.get(key);
+    if (previous !== undefined) {
+      issues.push({ line, start, end, message: `"${key}" is already defined on line ${previous + 1}`, severity: 'warning' });
+    }
+    seen.set(key, line);
+
+    const value = content.slice(separator + 1).trim();
+    const quote = value[0];
+    if (quote !== '"' && quote !== "'") {
+      continue;
+    }
+
+    // Quoted values may span several lines; look for the closing quote.
+    let closingLine = line;
+    let closing = findClosingQuote(value, quote, 1);
+    let rest = closing === -1 ? '' : value.slice(closing + 1);
+    for (let next = line + 1; closing === -1 && next < lines.length; next++) {
+      closing = findClosingQuote(lines[next], quote, 0);
+      if (closing !== -1) {
+        closingLine = next;
+        rest = lines[next].slice(closing + 1);
+      }
+    }
+
+    if (closing === -1) {
+      issues.push({ line, start, end, message: `Unterminated ${quote === '"' ? 'double' : 'single'}-quoted value`, severity: 'error' });
+      break;
+    }
+
+    // Only an inline comment may follow the closing quote
+    if (!/^\s*(#.*)?$/.test(rest)) {
+      issues.push({
+        line: closingLine,
+        start,
+        end: lines[closingLine].trimEnd().length,
+        message: 'Unexpected text after the closing quote; the quotes will be part of the value',
+        severity: 'warning'
+      });
+    }
+    line = closingLine;
+  }
+
+  return issues;
+}
+
+/**
+ * Index of the quote that closes a value, skipping backslash-escaped quotes.
+ */
+function findClosingQuote(text: string, quote: string, from: number): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
@@ -1,72 +1,252 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { GitSource, parseGitUrl } from '../api/sources';
+import { GitAPI, GitExtension } from '../types/git';
 import { log } from './logger';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
+const LOG_FORMAT = '%H%x1f%an%x1f%aI%x1f%s%x1e';
+
+const HOSTED_PROVIDERS = new Set(['github.com', 'gitlab.com', 'bitbucket.org']);
+
+export interface RemoteInfo {
+  name: string;
+  host: string;
+  /** Everything before the repository name, e.g. `group/subgroup` on GitLab. */
+  owner: string;
+  repo: string;
+  url: string;
+}
+
+/**
+ * A workspace folder's repository. `owner`, `repo` and `url` describe the
+ * `origin` remote (or the first remote when there is no origin); matching
+ * considers every entry of `remotes`.
+ */
 export interface RepositoryInfo {
   owner: string;
   repo: string;
   url: string;
+  branch?: string;
+  folder: vscode.WorkspaceFolder;
+  remotes: RemoteInfo[];
+}
+
+export interface CommitInfo {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
 }
 
 export class GitService {
-  async getRepositoryInfo(): Promise<RepositoryInfo | undefined> {
+  private commitCache = new Map<string, CommitInfo | undefined>();
+
+  async getGitApi(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+      log('Built-in git extension not found');
+      return undefined;
+    }
+
+    try {
+      const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+      return gitExtension.getAPI(1);
+    } catch (error) {
+      log('Failed to activate the git extension:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves the repository info of every workspace folder, skipping folders
+   * that are not git repositories or have no recognizable remote.
+   */
+  async getRepositoryInfos(): Promise<RepositoryInfo[]> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
       log('No workspace folders found');
-      return undefined;
+      return [];
     }
 
-    const cwd = workspaceFolders[0].uri.fsPath;
+    const infos = await Promise.all(workspaceFolders.map(folder => this.getRepositoryInfo(folder)));
+    return infos.filter((info): info is RepositoryInfo => !!info);
+  }
+
+  async getRepositoryInfo(folder: vscode.WorkspaceFolder): Promise<RepositoryInfo | undefined> {
+    const cwd = folder.uri.fsPath;
     log(`Workspace folder: ${cwd}`);
 
+    const remotes = await this.getRemotes(cwd);
+    log('Git remotes:', remotes.map(remote => `${remote.name} ${remote.url}`));
+
+    const primary = remotes.find(remote => remote.name === 'origin') ?? remotes[0];
+    if (!primary) {
+      log('No recognizable git remote found');
+      return undefined;
+    }
+
+    const result: RepositoryInfo = {
+      owner: primary.owner,
+      repo: primary.repo,
+      url: primary.url,
+      branch: await this.getCurrentBranch(cwd),
+      folder,
+      remotes
+    };
+    log('Parsed repository info:', { owner: result.owner, repo: result.repo, branch: result.branch });
+    return result;
+  }
+
+  private async getRemotes(cwd: string): Promise<RemoteInfo[]> {
+    const stdout = await this.git(['remote', '-v'], cwd);
+    if (!stdout) {
+      return [];
+    }
+
+    const remotes = new Map<string, RemoteInfo>();
+    for (const line of stdout.split('\n')) {
+      const [name, url] = line.trim().split(/\s+/);
+      if (!name || !url || remotes.has(name)) {
+        continue;
+      }
+
+      const remote = this.parseRemoteUrl(name, url);
+      if (remote) {
+        remotes.set(name, remote);
+      }
+    }
+    return [...remotes.values()];
+  }
+
+  async getCurrentBranch(cwd: string): Promise<string | undefined> {
+    const stdout = await this.git(['rev-parse', '--abbrev-ref', 'HEAD'], cwd);
+    const branch = stdout?.trim();
+    return branch && branch !== 'HEAD' ? branch : undefined;
+  }
+
+  async getCommit(hash: string, cwd: string): Promise<CommitInfo | undefined> {
+    const key = `${cwd}:${hash}`;
+    if (this.commitCache.has(key)) {
+      return this.commitCache.get(key);
+    }
+
+    const [commit] = await this.log(['-1', hash], cwd);
+    this.commitCache.set(key, commit);
+    return commit;
+  }
+
+  /**
+   * Lists the commits reachable from `to` but not from `from`, newest first.
+   */
+  async getCommitsBetween(from: string, to: string, cwd: string): Promise<CommitInfo[]> {
+    return this.log([`${from}..${to}`, '--'], cwd);
+  }
+
+  async resolveRef(ref: string, cwd: string): Promise<string | undefined> {
+    const stdout = await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+    return stdout?.trim() || undefined;
+  }
+
+  async getChangedFiles(from: string, to: string, cwd: string): Promise<string[]> {
+    const stdout = await this.git(['diff', '--name-only', from, to], cwd);
+    return stdout ? stdout.split('\n').filter(Boolean) : [];
+  }
+
+  async getRepositoryRoot(cwd: string): Promise<vscode.Uri | undefined> {
+    const stdout = await this.git(['rev-parse', '--show-toplevel'], cwd);
+    return stdout ? vscode.Uri.file(stdout.trim()) : undefined;
+  }
+
+  /**
+   * Opens a multi-file diff of everything that changed between `hash` and the
+   * local HEAD of the repository containing `cwd`.
+   */
+  async compareWithHead(hash: string, title: string, cwd: string): Promise<boolean> {
+    const git = await this.getGitApi();
+    const root = await this.getRepositoryRoot(cwd);
+    if (!git || !root || !await this.resolveRef(hash, cwd)) {
+      return false;
+    }
+
+    const files = await this.getChangedFiles(hash, 'HEAD', cwd);
+    if (files.length === 0) {
+      vscode.window.showInformationMessage(`${title}: no differences with HEAD`);
+      return true;
+    }
+
+    const changes = files.map(file => {
+      const uri = vscode.Uri.joinPath(root, file);
+      return [uri, git.toGitUri(uri, hash), git.toGitUri(uri, 'HEAD')];
+    });
+    await vscode.commands.executeCommand('vscode.changes', title, changes);
+    return true;
+  }
+
+  private async log(args: string[], cwd: string): Promise<CommitInfo[]> {
+    const stdout = await this.git(['log', `--format=${LOG_FORMAT}`, ...args], cwd);
+    if (!stdout) {
+      return [];
+    }
+
+    return stdout.split('\x1e').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const [hash, author, date, subject] = entry.split('\x1f');
+      return { hash, author, date, subject };
+    });
+  }
+
+  private async git(args: string[], cwd: string): Promise<string | undefined> {
     try {
-      const { stdout } = await execAsync('git remote get-url origin', { cwd });
-      const url = stdout.trim();
-      log(`Git remote URL: ${url}`);
-      const result = this.parseRemoteUrl(url);
-      log('Parsed repository info:', result);
-      return result;
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+      return stdout;
     } catch (error) {
-      log('Failed to get git remote:', error);
+      log(`git ${args.join(' ')} failed:`, error instanceof Error ? error.message : error);
       return undefined;
     }
   }
 
-  private parseRemoteUrl(url: string): RepositoryInfo | undefined {
-    const sshMatch = url.match(/^git@([^:]+):([^/]+)\/(.+?)(?:\.git)?$/);
-    if (sshMatch) {
-      return {
-        owner: sshMatch[2],
-        repo: sshMatch[3],
-        url
-      };
+  private parseRemoteUrl(name: string, url: string): RemoteInfo | undefined {
+    const parsed = parseGitUrl(url);
+    if (!parsed) {
+      return undefined;
     }
 
-    const httpsMatch = url.match(/^https?:\/\/[^/]+\/([^/]+)\/(.+?)(?:\.git)?$/);
-    if (httpsMatch) {
-      return {
-        owner: httpsMatch[1],
-        repo: httpsMatch[2],
-        url
-      };
-    }
+    const separator = parsed.path.lastIndexOf('/');
+    return {
+      name,
+      host: parsed.host,
+      owner: parsed.path.slice(0, separator),
+      repo: parsed.path.slice(separator + 1),
+      url
+    };
+  }
 
-    return undefined;
+  tracksCurrentBranch(appBranch: string | undefined, repoInfo: RepositoryInfo): boolean {
+    return !!appBranch && !!repoInfo.branch && appBranch === repoInfo.branch;
   }
 
-  matchesRepository(appRepo: string | undefined, appOwner: string | undefined, repoInfo: RepositoryInfo): boolean {
-    if (!appRepo || !appOwner) {
+  /**
+   * Whether any remote of the repository points at `source`. The host is
+   * compared too when the source knows it, but a hosted provider's repository
+   * may be cloned through an SSH alias such as `github-work`.
+   */
+  matchesRepository(source: GitSource | undefined, repoInfo: RepositoryInfo): boolean {
+    if (!source) {
       return false;
     }
 
-    const normalizedAppRepo = appRepo.replace(/\.git$/, '').toLowerCase();
-    const normalizedRepo = repoInfo.repo.toLowerCase();
-    const normalizedAppOwner = appOwner.toLowerCase();
-    const normalizedOwner = repoInfo.owner.toLowerCase();
+    const path = source.path.toLowerCase();
+    return repoInfo.remotes.some(remote =>
+      `${remote.owner}/${remote.repo}`.toLowerCase() === path && matchesHost(source.host, remote.host)
+    );
+  }
+}
 
-    return normalizedAppRepo === normalizedRepo && normalizedAppOwner === normalizedOwner;
+function matchesHost(sourceHost: string | undefined, remoteHost: string): boolean {
+  if (!sourceHost || remoteHost === sourceHost) {
+    return true;
   }
+  return HOSTED_PROVIDERS.has(sourceHost) && !HOSTED_PROVIDERS.has(remoteHost);
 }
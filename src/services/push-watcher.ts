@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { matchesCommit } from '../api/deployments';
+import { DokployClient } from '../api/dokploy-client';
+import { getSourceBranch } from '../api/sources';
+import { DeploymentsProvider } from '../providers/deployments-provider';
+import { Application, Deployment } from '../types/dokploy';
+import { Repository } from '../types/git';
+import { ConfigService } from './config-service';
+import { GitService } from './git-service';
+import { log } from './logger';
+
+const POLL_INTERVAL_MS = 5000;
+const POLL_ATTEMPTS = 24;
+
+interface HeadSnapshot {
+  commit?: string;
+  ahead: number;
+}
+
+/**
+ * Watches the workspace repositories for pushes to a branch tracked by a
+ * matched application and follows the deployment the push triggers.
+ */
+export class PushWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private repositories = new Map<Repository, { snapshot: HeadSnapshot; listener: vscode.Disposable }>();
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(
+    private deploymentsProvider: DeploymentsProvider,
+    private configService: ConfigService,
+    private gitService: GitService
+  ) {}
+
+  async start(): Promise<void> {
+    const git = await this.gitService.getGitApi();
+    if (!git) {
+      return;
+    }
+
+    git.repositories.forEach(repository => this.watch(repository));
+    this.disposables.push(
+      git.onDidOpenRepository(repository => this.watch(repository)),
+      git.onDidCloseRepository(repository => this.unwatch(repository))
+    );
+  }
+
+  private watch(repository: Repository): void {
+    if (this.repositories.has(repository)) {
+      return;
+    }
+
+    this.repositories.set(repository, {
+      snapshot: this.snapshot(repository),
+      listener: repository.state.onDidChange(() => this.onStateChange(repository))
+    });
+  }
+
+  private unwatch(repository: Repository): void {
+    this.repositories.get(repository)?.listener.dispose();
+    this.repositories.delete(repository);
+  }
+
+  private snapshot(repository: Repository): HeadSnapshot {
+    const head = repository.state.HEAD;
+    return { commit: head?.commit, ahead: head?.ahead ?? 0 };
+  }
+
+  private onStateChange(repository: Repository): void {
+    const watched = this.repositories.get(repository);
+    if (!watched) {
+      return;
+    }
+
+    const previous = watched.snapshot;
+    const current = this.snapshot(repository);
+    watched.snapshot = current;
+
+    // A push leaves HEAD where it was and clears the commits ahead of upstream.
+    const pushed = previous.ahead > 0 && current.ahead === 0 && previous.commit === current.commit;
+    const head = repository.state.HEAD;
+    if (!pushed || !head?.commit || !head.upstream) {
+      return;
+    }
+
+    if (this.configService.getFollowPushMode() === 'off') {
+      return;
+    }
+
+    this.onPush(repository, head.upstream.name, head.commit);
+  }
+
+  private onPush(repository: Repository, branch: string, commit: string): void {
+    const apps = this.deploymentsProvider.getMatchedApplications(repository.rootUri).filter(app => getSourceBranch(app) === branch);
+
+    log(`Detected push of ${commit.slice(0, 7)} to ${branch}`, { applications: apps.map(app => app.name) });
+
+    for (const app of apps) {
+      const client = this.deploymentsProvider.getClient(app.applicationId);
+      if (client) {
+        this.followDeployment(client, app, branch, commit);
+      }
+    }
+  }
+
+  private async followDeployment(client: DokployClient, app: Application, branch: string, commit: string): Promise<void> {
+    let known: Set<string>;
+    try {
+      known = new Set((await client.getDeployments(app.applicationId)).map(d => d.deploymentId));
+    } catch {
+      known = new Set();
+    }
+
+    const poll = async (attempt: number) => {
+      try {
+        const deployments = await client.getDeployments(app.applicationId);
+        // The webhook may already have created the deployment before the first
+        // poll, so a deployment recording the pushed commit counts even if known.
+        const deployment = deployments.find(d => matchesCommit(d, commit))
+          ?? deployments.find(d => !known.has(d.deploymentId));
+
+        if (deployment) {
+          this.announce(app, branch, deployment);
+          return;
+        }
+      } catch (error) {
+        log(`Failed to poll deployments for ${app.name}:`, error);
+      }
+
+      if (attempt >= POLL_ATTEMPTS) {
+        log(`No deployment appeared for ${app.name} after pushing to ${branch}`);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        poll(attempt + 1);
+      }, POLL_INTERVAL_MS);
+      this.timers.add(timer);
+    };
+
+    await poll(1);
+  }
+
+  private async announce(app: Application, branch: string, deployment: Deployment): Promise<void> {
+    log(`Following deployment ${deployment.deploymentId} of ${app.name}`);
+    this.deploymentsProvider.reload();
+
+    if (this.configService.getFollowPushMode() === 'openLogs') {
+      await vscode.commands.executeCommand('dokploy.viewLogs', deployment);
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Dokploy is deploying ${app.name} from your push to ${branch}`,
+      'View Logs'
+    );
+    if (choice === 'View Logs') {
+      await vscode.commands.executeCommand('dokploy.viewLogs', deployment);
+    }
+  }
+
+  dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.repositories.forEach(({ listener }) => listener.dispose());
+    this.repositories.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
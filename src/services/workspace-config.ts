@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { log } from './logger';
+
+export const WORKSPACE_CONFIG_PATHS = ['.dokploy/config.json', '.vscode/dokploy.json'];
+
+export const WORKSPACE_CONFIG_GLOB = '{.dokploy/config.json,.vscode/dokploy.json}';
+
+/**
+ * A checked-in link between a workspace folder and Dokploy services. When
+ * present it replaces git remote matching for the folder.
+ */
+export interface WorkspaceConfig {
+  server?: string;
+  applications?: string[];
+  compose?: string[];
+}
+
+export function sameEndpoint(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '').toLowerCase() === b.replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Reads the first workspace config found in the folder. An invalid file is
+ * reported and treated as missing so the folder falls back to git matching.
+ */
+export async function readWorkspaceConfig(folder: vscode.WorkspaceFolder): Promise<WorkspaceConfig | undefined> {
+  const uri = await findWorkspaceConfig(folder);
+  if (!uri) {
+    return undefined;
+  }
+
+  try {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    const config: unknown = JSON.parse(content);
+    if (!isWorkspaceConfig(config)) {
+      throw new Error('expected "server" to be a string and "applications" and "compose" to be lists of ids');
+    }
+    log(`Using workspace config ${uri.fsPath}:`, config);
+    return config;
+  } catch (error) {
+    log(`Ignoring invalid workspace config ${uri.fsPath}:`, error instanceof Error ? error.message : error);
+    vscode.window.showWarningMessage(`Ignoring invalid Dokploy config ${vscode.workspace.asRelativePath(uri)}`);
+    return undefined;
+  }
+}
+
+function isWorkspaceConfig(value: unknown): value is WorkspaceConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const { server, applications, compose } = value as Record<string, unknown>;
+  const isIdList = (ids: unknown) => ids === undefined || (Array.isArray(ids) && ids.every(id => typeof id === 'string'));
+  return (server === undefined || typeof server === 'string') && isIdList(applications) && isIdList(compose);
+}
+
+/**
+ * Writes the config back to the file it was read from, or to
+ * `.dokploy/config.json` when the folder has none yet.
+ */
+export async function writeWorkspaceConfig(folder: vscode.WorkspaceFolder, config: WorkspaceConfig): Promise<vscode.Uri> {
+  const uri = await findWorkspaceConfig(folder) ?? vscode.Uri.joinPath(folder.uri, WORKSPACE_CONFIG_PATHS[0]);
+  const content = JSON.stringify(config, null, 2) + '\n';
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+  return uri;
+}
+
+async function findWorkspaceConfig(folder: vscode.WorkspaceFolder): Promise<vscode.Uri | undefined> {
+  for (const path of WORKSPACE_CONFIG_PATHS) {
+    const uri = vscode.Uri.joinPath(folder.uri, path);
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return uri;
+    } catch {
+      // Not present, try the next location
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { DokployClient } from '../api/dokploy-client';
+import { computeRates, ContainerMetricsStore, MetricsSample, resolveMetricsEndpoint, toMegabytes } from '../services/container-metrics';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { API_KEY, containerMetrics } from './fixtures';
+
+suite('Container metrics', () => {
+  let server: FakeDokployServer;
+  let client: DokployClient;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+    client = new DokployClient(server.endpoint, API_KEY, { maxRetries: 0 });
+  });
+
+  teardown(async () => {
+    await server.stop();
+  });
+
+  test('resolves the monitoring agent of the Dokploy host and of remote nodes', async () => {
+    const host = await resolveMetricsEndpoint(client);
+    const node = await resolveMetricsEndpoint(client, 'node-eu');
+    const unmonitored = await resolveMetricsEndpoint(client, 'node-us');
+
+    assert.deepStrictEqual(host, { url: 'http://10.0.0.1:4500/metrics', token: 'metrics-token', refreshRateS: 30 });
+    assert.strictEqual(node?.url, 'http://10.0.0.5:4500/metrics');
+    assert.strictEqual(unmonitored, undefined);
+  });
+
+  test('keeps a separate history per container and ignores repeated samples', async () => {
+    const store = new ContainerMetricsStore();
+    const now = Date.parse('2025-03-02T10:01:00.000Z');
+
+    const endpoint = (await resolveMetricsEndpoint(client))!;
+    const metrics = await client.getContainerMetrics(endpoint.url, endpoint.token, 'storefront-web-a1b2c3', 10);
+    store.add(metrics, now);
+    store.add(metrics, now);
+
+    const web1 = store.get('container-web-1', 5 * 60 * 1000, now);
+    assert.deepStrictEqual(web1.map(sample => sample.cpu), [3.2, 4.8]);
+    assert.strictEqual(store.get('container-web-2', 5 * 60 * 1000, now).length, 1);
+    assert.strictEqual(store.get('container-web-1', 45 * 1000, now).length, 1);
+  });
+
+  test('drops samples older than the longest time window', () => {
+    const store = new ContainerMetricsStore();
+    const [first] = containerMetrics['storefront-web-a1b2c3'];
+
+    store.add([first], Date.parse(first.timestamp) + 7 * 60 * 60 * 1000);
+
+    assert.strictEqual(store.get('container-web-1', Infinity).length, 0);
+  });
+
+  test('turns cumulative network and block I/O counters into rates', () => {
+    const sample = (time: number, networkInMb: number): MetricsSample => ({
+      time, cpu: 0, memoryMb: 0, memoryPercent: 0, networkInMb, networkOutMb: 0, blockReadMb: 0, blockWriteMb: 0
+    });
+    const history = [sample(0, 100), sample(10_000, 150), sample(20_000, 150), sample(30_000, 20)];
+
+    computeRates(history);
+
+    assert.deepStrictEqual(history.map(entry => entry.networkInRate), [undefined, 5, 0, 2]);
+    assert.strictEqual(history[1].blockWriteRate, 0);
+  });
+
+  test('converts sizes to megabytes', () => {
+    assert.strictEqual(toMegabytes('800', 'kB'), 0.8);
+    assert.strictEqual(toMegabytes('2', 'GB'), 2000);
+    assert.strictEqual(toMegabytes(1, 'MiB'), 1.048576);
+    assert.strictEqual(toMegabytes('1.5', undefined), 1.5);
+  });
+});
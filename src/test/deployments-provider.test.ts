@@ -0,0 +1,338 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeploymentItem, DeploymentsProvider } from '../providers/deployments-provider';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { repoInfo, TestConfigService, TestGitService, testServer, workspaceFolder } from './helpers';
+
+suite('DeploymentsProvider', () => {
+  let server: FakeDokployServer;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+  });
+
+  teardown(async () => {
+    await server.stop();
+  });
+
+  async function createProvider(owner: string, repo: string, apiKey?: string, branch?: string): Promise<DeploymentsProvider> {
+    const provider = new DeploymentsProvider(
+      new TestConfigService(testServer(server.endpoint), apiKey),
+      new TestGitService({ ...repoInfo(owner, repo), branch })
+    );
+    await provider.initialize();
+    return provider;
+  }
+
+  function labels(items: DeploymentItem[]): string[] {
+    return items.map(item => item.label);
+  }
+
+  test('matches applications by owner and repository, ignoring case and .git suffix', async () => {
+    const provider = await createProvider('acme', 'storefront');
+
+    const roots = await provider.getChildren();
+    assert.deepStrictEqual(labels(roots), ['production', 'staging']);
+    assert.deepStrictEqual(
+      provider.getMatchedApplications().map(app => app.applicationId),
+      ['app-web', 'app-web-staging']
+    );
+  });
+
+  test('lists matched compose services and environment databases', async () => {
+    const provider = await createProvider('acme', 'storefront');
+
+    const [production] = await provider.getChildren();
+    const services = await provider.getChildren(production);
+
+    assert.deepStrictEqual(labels(services), ['Web', 'Workers', 'Main DB']);
+    assert.deepStrictEqual(services.map(item => item.itemType), ['application', 'compose', 'database']);
+    assert.strictEqual(production.description, '1 app, 1 compose, 1 database');
+  });
+
+  test('loads deployments for applications and compose services', async () => {
+    const provider = await createProvider('acme', 'storefront');
+
+    const [production] = await provider.getChildren();
+    const [web, workers] = await provider.getChildren(production);
+
+    const [webFolder] = await provider.getChildren(web);
+    assert.deepStrictEqual(labels(await provider.getChildren(webFolder)), ['Add checkout page', 'Initial commit']);
+
+    const [workersFolder] = await provider.getChildren(workers);
+    assert.deepStrictEqual(labels(await provider.getChildren(workersFolder)), ['Deploy workers']);
+  });
+
+  test('lists application domains with port and certificate', async () => {
+    const provider = await createProvider('acme', 'storefront');
+
+    const [production] = await provider.getChildren();
+    const [web] = await provider.getChildren(production);
+    const domainsFolder = (await provider.getChildren(web)).find(item => item.itemType === 'domains-folder');
+    assert.ok(domainsFolder);
+
+    const [domain] = await provider.getChildren(domainsFolder);
+    assert.strictEqual(domain.label, 'shop.acme.dev');
+    assert.strictEqual(domain.description, ':3000 · HTTPS (letsencrypt)');
+  });
+
+  test('shows optimistic statuses until the next reload', async () => {
+    const provider = await createProvider('acme', 'storefront');
+    const webStatus = async () => {
+      const [production] = await provider.getChildren();
+      const [web] = await provider.getChildren(production);
+      return web.description;
+    };
+
+    provider.setOptimisticStatus('app-web', 'idle');
+    assert.strictEqual(await webStatus(), 'idle · ⎇ main');
+
+    server.projects[0].environments[0].applications[0].applicationStatus = 'error';
+    await provider.reload();
+    assert.strictEqual(await webStatus(), 'error · ⎇ main');
+  });
+
+  test('sorts applications tracking the current branch first and marks them', async () => {
+    const staging = server.projects[0].environments[1];
+    staging.applications.unshift({ ...staging.applications[0], applicationId: 'app-hotfix', name: 'Hotfix', branch: 'main' });
+    const provider = await createProvider('acme', 'storefront', undefined, 'develop');
+
+    const [, stagingItem] = await provider.getChildren();
+    const [first, second] = await provider.getChildren(stagingItem);
+    assert.strictEqual(first.label, 'Web (staging)');
+    assert.strictEqual(first.description, 'running · ⎇ develop (current)');
+    assert.strictEqual(second.description, 'running · ⎇ main');
+  });
+
+  test('matches GitHub sources through SSH host aliases', async () => {
+    const info = repoInfo('acme', 'storefront');
+    info.remotes = [{ name: 'origin', host: 'github-work', owner: 'acme', repo: 'storefront', url: 'git@github-work:acme/storefront.git' }];
+
+    const provider = new DeploymentsProvider(new TestConfigService(testServer(server.endpoint)), new TestGitService(info));
+    await provider.initialize();
+
+    assert.ok(provider.getMatchedApplications().some(app => app.applicationId === 'app-web'));
+  });
+
+  test('matches non-GitHub sources against every remote and its host', async () => {
+    const internal = server.projects[1].environments[0];
+    internal.applications.push(
+      { ...internal.applications[0], applicationId: 'app-gitlab', name: 'GitLab', sourceType: 'gitlab', gitlabPathNamespace: 'acme/platform/storefront', gitlabBranch: 'main' },
+      { ...internal.applications[0], applicationId: 'app-bitbucket', name: 'Bitbucket', sourceType: 'bitbucket', bitbucketOwner: 'acme/platform', bitbucketRepository: 'storefront' }
+    );
+    const info = repoInfo('acme', 'storefront');
+    info.remotes.push({ name: 'gitlab', host: 'gitlab.com', owner: 'acme/platform', repo: 'storefront', url: 'git@gitlab.com:acme/platform/storefront.git' });
+
+    const provider = new DeploymentsProvider(new TestConfigService(testServer(server.endpoint)), new TestGitService(info));
+    await provider.initialize();
+
+    const matched = provider.getMatchedApplications().map(app => app.applicationId);
+    assert.ok(matched.includes('app-gitlab'));
+    assert.ok(!matched.includes('app-bitbucket'));
+  });
+
+  test('prefers a checked-in workspace config over git remote matching', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokploy-'));
+    fs.mkdirSync(path.join(root, '.dokploy'));
+    fs.writeFileSync(path.join(root, '.dokploy', 'config.json'), JSON.stringify({
+      server: `${server.endpoint}/`,
+      applications: ['app-admin'],
+      compose: ['compose-workers']
+    }));
+
+    try {
+      const folder = { uri: vscode.Uri.file(root), name: 'linked', index: 0 };
+      const provider = new DeploymentsProvider(
+        new TestConfigService(testServer(server.endpoint)),
+        new TestGitService(repoInfo('acme', 'storefront', folder))
+      );
+      await provider.initialize();
+
+      assert.deepStrictEqual(provider.getMatchedApplications().map(app => app.applicationId), ['app-admin']);
+      assert.deepStrictEqual(labels(await provider.getChildren()), ['production', 'production']);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('links a folder without a git remote through its workspace config', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokploy-'));
+    fs.mkdirSync(path.join(root, '.dokploy'));
+    fs.writeFileSync(path.join(root, '.dokploy', 'config.json'), JSON.stringify({ applications: ['app-admin'] }));
+
+    try {
+      const provider = new DeploymentsProvider(new TestConfigService(testServer(server.endpoint)), new TestGitService(undefined));
+      await provider.initialize();
+      assert.deepStrictEqual(provider.getMatchedApplications(), []);
+
+      await provider.updateWorkspaceFolders({ added: [{ uri: vscode.Uri.file(root), name: 'image', index: 0 }], removed: [] });
+      assert.deepStrictEqual(provider.getMatchedApplications().map(app => app.applicationId), ['app-admin']);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('ignores a workspace config whose service ids are not lists', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokploy-'));
+    fs.mkdirSync(path.join(root, '.dokploy'));
+    fs.writeFileSync(path.join(root, '.dokploy', 'config.json'), JSON.stringify({ applications: 'app-admin' }));
+
+    try {
+      const folder = { uri: vscode.Uri.file(root), name: 'linked', index: 0 };
+      const provider = new DeploymentsProvider(
+        new TestConfigService(testServer(server.endpoint)),
+        new TestGitService(repoInfo('acme', 'storefront', folder))
+      );
+      await provider.initialize();
+
+      const matched = provider.getMatchedApplications().map(app => app.applicationId);
+      assert.ok(matched.length > 0);
+      assert.ok(!matched.includes('app-admin'));
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('groups environments under workspace folders in a multi-root workspace', async () => {
+    const provider = new DeploymentsProvider(
+      new TestConfigService(testServer(server.endpoint)),
+      new TestGitService([
+        repoInfo('acme', 'storefront', workspaceFolder('shop', 0)),
+        repoInfo('acme', 'admin', workspaceFolder('admin', 1)),
+        repoInfo('acme', 'unknown', workspaceFolder('scratch', 2))
+      ])
+    );
+    await provider.initialize();
+
+    const roots = await provider.getChildren();
+    assert.deepStrictEqual(labels(roots), ['shop', 'admin', 'scratch']);
+    assert.deepStrictEqual(roots.map(item => item.itemType), ['workspace-folder', 'workspace-folder', 'workspace-folder']);
+    assert.strictEqual(roots[2].description, 'No matching application');
+
+    assert.deepStrictEqual(labels(await provider.getChildren(roots[0])), ['production', 'staging']);
+    assert.deepStrictEqual(labels(await provider.getChildren(roots[1])), ['production']);
+    assert.strictEqual(provider.getRepositoryFor('app-admin')?.folder.name, 'admin');
+  });
+
+  test('applies workspace folder changes without refetching projects', async () => {
+    const shop = workspaceFolder('shop', 0);
+    const admin = workspaceFolder('admin', 1);
+    const gitService = new TestGitService([repoInfo('acme', 'storefront', shop), repoInfo('acme', 'admin', admin)]);
+    gitService.getRepositoryInfos = async () => [repoInfo('acme', 'storefront', shop)];
+    const provider = new DeploymentsProvider(new TestConfigService(testServer(server.endpoint)), gitService);
+    await provider.initialize();
+    assert.deepStrictEqual(labels(await provider.getChildren()), ['production', 'staging']);
+
+    await provider.updateWorkspaceFolders({ added: [admin], removed: [] });
+    assert.deepStrictEqual(labels(await provider.getChildren()), ['shop', 'admin']);
+    assert.ok(provider.getMatchedApplications().some(app => app.applicationId === 'app-admin'));
+
+    await provider.updateWorkspaceFolders({ added: [], removed: [shop] });
+    assert.deepStrictEqual(labels(await provider.getChildren()), ['production']);
+    assert.deepStrictEqual(provider.getMatchedApplications().map(app => app.applicationId), ['app-admin']);
+    assert.strictEqual(server.requestsTo('/api/project.all').length, 1);
+  });
+
+  test('groups environments under each server and keeps the tree when one is unreachable', async () => {
+    const other = new FakeDokployServer();
+    await other.start();
+    other.projects[0].environments.splice(1);
+    const offline = new FakeDokployServer();
+    await offline.start();
+    const offlineEndpoint = offline.endpoint;
+    await offline.stop();
+
+    try {
+      const provider = new DeploymentsProvider(
+        new TestConfigService([
+          testServer(server.endpoint, 'Primary'),
+          testServer(other.endpoint, 'Secondary'),
+          testServer(offlineEndpoint, 'Offline')
+        ]),
+        new TestGitService(repoInfo('acme', 'storefront'))
+      );
+      await provider.initialize();
+
+      const roots = await provider.getChildren();
+      assert.deepStrictEqual(labels(roots), ['Primary', 'Secondary', 'Offline']);
+      assert.deepStrictEqual(roots.map(item => item.itemType), ['server', 'server', 'server-error']);
+
+      assert.deepStrictEqual(labels(await provider.getChildren(roots[0])), ['production', 'staging']);
+      assert.deepStrictEqual(labels(await provider.getChildren(roots[1])), ['production']);
+
+      await other.stop();
+      await provider.reload();
+
+      const [, secondary] = await provider.getChildren();
+      assert.strictEqual(secondary.itemType, 'server');
+      assert.strictEqual(secondary.description, 'Unreachable, showing the last known state');
+      assert.deepStrictEqual(labels(await provider.getChildren(secondary)), ['production']);
+    } finally {
+      await other.stop();
+    }
+  });
+
+  test('looks up the server that hosts a service', async () => {
+    const other = new FakeDokployServer();
+    await other.start();
+    server.projects[0].environments.splice(1);
+
+    try {
+      const provider = new DeploymentsProvider(
+        new TestConfigService([testServer(server.endpoint, 'Primary'), testServer(other.endpoint, 'Secondary')]),
+        new TestGitService(repoInfo('acme', 'storefront'))
+      );
+      await provider.initialize();
+
+      assert.strictEqual(provider.getConnection('app-web')?.server.name, 'Primary');
+      assert.strictEqual(provider.getConnection('app-web-staging')?.server.name, 'Secondary');
+      assert.strictEqual(provider.getConnection('missing'), undefined);
+    } finally {
+      await other.stop();
+    }
+  });
+
+  test('shows the no-match item when nothing matches the workspace', async () => {
+    const provider = await createProvider('someone-else', 'storefront');
+
+    const roots = await provider.getChildren();
+    assert.deepStrictEqual(roots.map(item => item.itemType), ['no-match']);
+    assert.deepStrictEqual(provider.getMatchedApplications(), []);
+  });
+
+  test('browses every project and filters services by name', async () => {
+    const configService = new TestConfigService(testServer(server.endpoint));
+    configService.getBrowseAllProjects = () => true;
+    const provider = new DeploymentsProvider(configService, new TestGitService(repoInfo('someone-else', 'storefront')));
+    await provider.initialize();
+
+    const projects = await provider.getChildren();
+    assert.deepStrictEqual(labels(projects), ['Storefront', 'Internal']);
+    assert.deepStrictEqual(labels(await provider.getChildren(projects[0])), ['production', 'staging']);
+
+    const [internalProduction] = await provider.getChildren(projects[1]);
+    const [admin] = await provider.getChildren(internalProduction);
+    assert.strictEqual(admin.itemType, 'application');
+    assert.deepStrictEqual(labels(await provider.getChildren(admin)), ['Deployments', 'Domains', 'Runtime Logs']);
+
+    provider.setProjectFilter('Work');
+    const [storefront] = await provider.getChildren();
+    assert.strictEqual(storefront.label, 'Storefront');
+    const [production] = await provider.getChildren(storefront);
+    assert.deepStrictEqual(labels(await provider.getChildren(production)), ['Workers']);
+
+    provider.setProjectFilter('nothing');
+    assert.deepStrictEqual(labels(await provider.getChildren()), ['Nothing matches "nothing"']);
+  });
+
+  test('falls back to the no-match item when the server rejects the API key', async () => {
+    const provider = await createProvider('acme', 'storefront', 'wrong-key');
+
+    const roots = await provider.getChildren();
+    assert.deepStrictEqual(roots.map(item => item.itemType), ['no-match']);
+  });
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { getDeploymentCommitHash, matchesCommit } from '../api/deployments';
+import { deployments } from './fixtures';
+
+suite('deployment commits', () => {
+  const [running, done] = deployments['app-web'];
+
+  test('reads the commit hash Dokploy records in the description', () => {
+    assert.strictEqual(getDeploymentCommitHash(running), '3f2a9c1');
+    assert.strictEqual(getDeploymentCommitHash(deployments['compose-workers'][0]), undefined);
+  });
+
+  test('matches abbreviated hashes against full commits', () => {
+    assert.ok(matchesCommit(done, '9b8e7d6a0c1f2e3d4c5b6a79881726354a5b6c7d'));
+    assert.ok(!matchesCommit(done, '3f2a9c1a0c1f2e3d4c5b6a79881726354a5b6c7d'));
+  });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import { DokployClient } from '../api/dokploy-client';
+import { DokployApiError } from '../api/errors';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { API_KEY } from './fixtures';
+
+suite('DokployClient', () => {
+  let server: FakeDokployServer;
+  let client: DokployClient;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+    client = new DokployClient(server.endpoint, API_KEY, { timeoutMs: 500, maxRetries: 2 });
+  });
+
+  teardown(async () => {
+    await server.stop();
+  });
+
+  test('fetches projects with the API key header', async () => {
+    const projects = await client.getProjects();
+
+    assert.strictEqual(projects.length, 2);
+    assert.strictEqual(server.requests[0].apiKey, API_KEY);
+  });
+
+  test('fetches deployments for applications and compose services', async () => {
+    const appDeployments = await client.getDeployments('app-web');
+    const composeDeployments = await client.getDeploymentsByCompose('compose-workers');
+
+    assert.deepStrictEqual(appDeployments.map(d => d.deploymentId), ['dep-web-2', 'dep-web-1']);
+    assert.deepStrictEqual(composeDeployments.map(d => d.deploymentId), ['dep-workers-1']);
+  });
+
+  test('sends mutation bodies as JSON', async () => {
+    await client.redeploy('app-web');
+
+    const [request] = server.requestsTo('/api/application.redeploy');
+    assert.strictEqual(request.method, 'POST');
+    assert.deepStrictEqual(request.body, { applicationId: 'app-web' });
+  });
+
+  test('rejects with an auth error when the API key is wrong', async () => {
+    const badClient = new DokployClient(server.endpoint, 'wrong-key', { maxRetries: 0 });
+
+    await assert.rejects(badClient.getProjects(), (error: unknown) => {
+      assert.ok(error instanceof DokployApiError);
+      assert.strictEqual(error.status, 401);
+      assert.strictEqual(error.code, 'UNAUTHORIZED');
+      assert.ok(error.isAuthError);
+      return true;
+    });
+  });
+
+  test('parses validation issues from error bodies', async () => {
+    server.failNext('/api/application.deploy', {
+      status: 400,
+      body: { message: 'Input validation failed', code: 'BAD_REQUEST', issues: [{ message: 'Required', path: ['applicationId'] }] }
+    });
+
+    await assert.rejects(client.deploy(''), (error: unknown) => {
+      assert.ok(error instanceof DokployApiError);
+      assert.deepStrictEqual(error.issues, ['applicationId: Required']);
+      assert.strictEqual(error.retryable, false);
+      return true;
+    });
+  });
+
+  test('retries GET requests on server errors', async () => {
+    server.failNext('/api/project.all', { status: 502, body: { message: 'Bad gateway' } }, 2);
+
+    const projects = await client.getProjects();
+
+    assert.strictEqual(projects.length, 2);
+    assert.strictEqual(server.requestsTo('/api/project.all').length, 3);
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    server.failNext('/api/project.all', { status: 500, body: { message: 'Boom' } }, 5);
+
+    await assert.rejects(client.getProjects(), DokployApiError);
+    assert.strictEqual(server.requestsTo('/api/project.all').length, 3);
+  });
+
+  test('does not retry POST requests', async () => {
+    server.failNext('/api/application.redeploy', { status: 500, body: { message: 'Boom' } });
+
+    await assert.rejects(client.redeploy('app-web'), DokployApiError);
+    assert.strictEqual(server.requestsTo('/api/application.redeploy').length, 1);
+  });
+
+  test('times out slow requests', async () => {
+    const impatientClient = new DokployClient(server.endpoint, API_KEY, { timeoutMs: 50, maxRetries: 0 });
+    server.delay('/api/project.all', 500);
+
+    await assert.rejects(impatientClient.getProjects(), (error: unknown) => {
+      assert.ok(error instanceof DokployApiError);
+      assert.strictEqual(error.kind, 'timeout');
+      return true;
+    });
+  });
+
+  test('rejects non-JSON success bodies', async () => {
+    server.failNext('/api/project.all', { status: 200, raw: '<html>Dashboard</html>' });
+
+    await assert.rejects(client.getProjects(), (error: unknown) => {
+      assert.ok(error instanceof DokployApiError);
+      assert.strictEqual(error.kind, 'invalid-response');
+      return true;
+    });
+  });
+
+  test('reports network errors as retryable', async () => {
+    const endpoint = server.endpoint;
+    await server.stop();
+    const offlineClient = new DokployClient(endpoint, API_KEY, { maxRetries: 0 });
+
+    await assert.rejects(offlineClient.getProjects(), (error: unknown) => {
+      assert.ok(error instanceof DokployApiError);
+      assert.strictEqual(error.kind, 'network');
+      assert.ok(error.retryable);
+      return true;
+    });
+  });
+
+  test('does not retry certificate errors', () => {
+    const cause = Object.assign(new Error('self-signed certificate'), { code: 'DEPTH_ZERO_SELF_SIGNED_CERT' });
+    const error = DokployApiError.network(cause);
+
+    assert.ok(error.isTlsError);
+    assert.strictEqual(error.retryable, false);
+  });
+});
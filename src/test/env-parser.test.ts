@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { validateEnv } from '../services/env-parser';
+
+suite('validateEnv', () => {
+  test('accepts comments, blank lines, export prefixes and quoted values', () => {
+    const text = [
+      '# Database',
+      'DATABASE_URL=postgres://user:pass@db:5432/app',
+      '',
+      'export NODE_ENV=production',
+      'GREETING="hello world"',
+      "EMPTY=''",
+      'CERT="-----BEGIN-----',
+      'abc',
+      '-----END-----"'
+    ].join('\n');
+
+    assert.deepStrictEqual(validateEnv(text), []);
+  });
+
+  test('reports lines without a separator and invalid names', () => {
+    const issues = validateEnv('VALID=1\njust some text\n1BAD=2');
+
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.severity, issue.message]), [
+      [1, 'error', 'Expected KEY=value'],
+      [2, 'error', 'Invalid variable name "1BAD"']
+    ]);
+  });
+
+  test('warns about duplicate keys', () => {
+    const issues = validateEnv('PORT=3000\nPORT=4000');
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].severity, 'warning');
+    assert.strictEqual(issues[0].message, '"PORT" is already defined on line 1');
+  });
+
+  test('accepts inline comments after a closing quote', () => {
+    const text = [
+      'KEY="abc" # note',
+      "SINGLE='a # b'   # trailing",
+      'ESCAPED="say \\"hi\\"" # quoted',
+      'OTHER=1'
+    ].join('\n');
+
+    assert.deepStrictEqual(validateEnv(text), []);
+  });
+
+  test('does not swallow lines up to a later quote', () => {
+    const issues = validateEnv('KEY="abc" # note\nMIDDLE=1\nLAST="xyz"\nMIDDLE=2');
+
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.message]), [
+      [3, '"MIDDLE" is already defined on line 2']
+    ]);
+  });
+
+  test('warns about text after a closing quote', () => {
+    const issues = validateEnv('KEY="abc" def');
+
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.severity]), [[0, 'warning']]);
+  });
+
+  test('reports unterminated quotes', () => {
+    const issues = validateEnv('KEY="never closed\nOTHER=1');
+
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.message]), [
+      [0, 'Unterminated double-quoted value']
+    ]);
+  });
+});
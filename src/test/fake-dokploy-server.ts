@@ -0,0 +1,212 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Application } from '../types/dokploy';
+import {
+  API_KEY,
+  containerMetrics,
+  containers,
+  deployments,
+  logFrames,
+  metricsToken,
+  projects,
+  remoteServers,
+  serverMetrics
+} from './fixtures';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  apiKey?: string;
+}
+
+export interface FakeResponse {
+  status?: number;
+  body?: unknown;
+  raw?: string;
+}
+
+type RouteHandler = (request: RecordedRequest) => FakeResponse | unknown;
+
+interface ScriptedFailure {
+  response: FakeResponse;
+  remaining: number;
+}
+
+/**
+ * In-process stand-in for a Dokploy server. Serves the fixture data over the
+ * same REST paths the extension uses and streams scripted log frames over the
+ * deployment and container log WebSockets.
+ */
+export class FakeDokployServer {
+  readonly requests: RecordedRequest[] = [];
+  readonly projects = structuredClone(projects);
+  readonly deployments = structuredClone(deployments);
+  readonly logFrames = structuredClone(logFrames);
+  readonly remoteServers = structuredClone(remoteServers);
+  frameDelayMs = 5;
+
+  private server = http.createServer((req, res) => this.handleRequest(req, res));
+  private wss = new WebSocketServer({ noServer: true });
+  private routes = new Map<string, RouteHandler>();
+  private failures = new Map<string, ScriptedFailure>();
+  private delays = new Map<string, number>();
+
+  constructor() {
+    this.route('GET', '/api/project.all', () => this.projects);
+    this.route('GET', '/api/settings.getDokployVersion', () => 'v0.22.5');
+    this.route('GET', '/api/application.one', ({ query }) => {
+      const app = this.findApplication(query.get('applicationId'));
+      return app ?? { status: 404, body: { message: 'Application not found', code: 'NOT_FOUND' } };
+    });
+    this.route('GET', '/api/domain.byApplicationId', ({ query }) => this.findApplication(query.get('applicationId'))?.domains ?? []);
+    this.route('GET', '/api/deployment.all', ({ query }) => this.deployments[query.get('applicationId') ?? ''] ?? []);
+    this.route('GET', '/api/deployment.allByCompose', ({ query }) => this.deployments[query.get('composeId') ?? ''] ?? []);
+    this.route('GET', '/api/docker.getContainersByAppLabel', ({ query }) => containers[query.get('appName') ?? ''] ?? []);
+    this.route('GET', '/api/server.all', () => this.remoteServers);
+    this.route('GET', '/api/server.getServerMetrics', ({ query }) => {
+      const samples = query.get('token') === 'metrics-token' ? serverMetrics[query.get('url') ?? ''] : undefined;
+      return samples ?? { status: 500, body: { message: 'Error getting metrics', code: 'INTERNAL_SERVER_ERROR' } };
+    });
+    this.route('GET', '/api/user.getMetricsToken', () => metricsToken);
+    this.route('GET', '/api/user.getContainerMetrics', ({ query }) => {
+      const samples = query.get('token') === 'metrics-token' ? containerMetrics[query.get('appName') ?? ''] : undefined;
+      return samples ?? [];
+    });
+    this.route('POST', '/api/application.deploy', () => true);
+    this.route('POST', '/api/application.redeploy', () => true);
+
+    this.server.on('upgrade', (req, socket, head) => {
+      if (req.headers['x-api-key'] !== API_KEY) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, ws => this.handleWebSocket(ws, req));
+    });
+  }
+
+  get endpoint(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  start(): Promise<string> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => resolve(this.endpoint));
+    });
+  }
+
+  stop(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    this.wss.close();
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  route(method: string, path: string, handler: RouteHandler): void {
+    this.routes.set(`${method} ${path}`, handler);
+  }
+
+  failNext(path: string, response: FakeResponse, times = 1): void {
+    this.failures.set(path, { response, remaining: times });
+  }
+
+  delay(path: string, ms: number): void {
+    this.delays.set(path, ms);
+  }
+
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter(r => r.path === path);
+  }
+
+  findApplication(applicationId: string | null): Application | undefined {
+    return this.projects
+      .flatMap(project => project.environments)
+      .flatMap(env => env.applications)
+      .find(app => app.applicationId === applicationId);
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let data = '';
+    req.on('data', chunk => data += chunk);
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', this.endpoint);
+      const request: RecordedRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        body: data ? JSON.parse(data) : undefined,
+        apiKey: req.headers['x-api-key'] as string | undefined
+      };
+      this.requests.push(request);
+
+      const respond = () => this.send(res, this.resolve(request));
+      const delay = this.delays.get(request.path);
+      if (delay) {
+        setTimeout(respond, delay);
+      } else {
+        respond();
+      }
+    });
+  }
+
+  private resolve(request: RecordedRequest): FakeResponse {
+    if (request.apiKey !== API_KEY) {
+      return { status: 401, body: { message: 'Unauthorized', code: 'UNAUTHORIZED' } };
+    }
+
+    const failure = this.failures.get(request.path);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      return failure.response;
+    }
+
+    const handler = this.routes.get(`${request.method} ${request.path}`);
+    if (!handler) {
+      return { status: 404, body: { message: `No route for ${request.method} ${request.path}`, code: 'NOT_FOUND' } };
+    }
+
+    const result = handler(request);
+    if (result && typeof result === 'object' && ('status' in result || 'raw' in result)) {
+      return result as FakeResponse;
+    }
+    return { status: 200, body: result };
+  }
+
+  private send(res: http.ServerResponse, response: FakeResponse): void {
+    const payload = response.raw ?? JSON.stringify(response.body);
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': response.raw !== undefined ? 'text/html' : 'application/json'
+    });
+    res.end(payload);
+  }
+
+  private handleWebSocket(ws: WebSocket, req: http.IncomingMessage): void {
+    const url = new URL(req.url ?? '/', this.endpoint);
+    const isDeployment = url.pathname === '/listen-deployment';
+    const key = isDeployment ? url.searchParams.get('logPath') : url.searchParams.get('containerId');
+    const frames = [...(this.logFrames[key ?? ''] ?? [])];
+
+    const sendNext = () => {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      const frame = frames.shift();
+      if (frame === undefined) {
+        if (isDeployment) {
+          ws.close();
+        }
+        return;
+      }
+      ws.send(frame);
+      setTimeout(sendNext, this.frameDelayMs);
+    };
+
+    setTimeout(sendNext, this.frameDelayMs);
+  }
+}
@@ -0,0 +1,241 @@
+import { Container, ContainerMetric, Deployment, MetricsToken, Project, RemoteServer, ServerMetrics } from '../types/dokploy';
+
+export const API_KEY = 'test-api-key';
+
+export const projects: Project[] = [
+  {
+    projectId: 'project-1',
+    name: 'Storefront',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    compose: [],
+    environments: [
+      {
+        environmentId: 'env-production',
+        name: 'production',
+        applications: [
+          {
+            applicationId: 'app-web',
+            name: 'Web',
+            appName: 'storefront-web-a1b2c3',
+            applicationStatus: 'done',
+            createdAt: '2025-01-02T00:00:00.000Z',
+            repository: 'Storefront.git',
+            owner: 'Acme',
+            branch: 'main',
+            domains: [
+              {
+                domainId: 'domain-web',
+                host: 'shop.acme.dev',
+                path: '/',
+                port: 3000,
+                https: true,
+                certificateType: 'letsencrypt',
+                applicationId: 'app-web'
+              }
+            ],
+            projectId: 'project-1',
+            environmentId: 'env-production'
+          },
+          {
+            applicationId: 'app-docs',
+            name: 'Docs',
+            appName: 'storefront-docs-d4e5f6',
+            applicationStatus: 'idle',
+            createdAt: '2025-01-03T00:00:00.000Z',
+            repository: 'docs',
+            owner: 'acme',
+            branch: 'main',
+            projectId: 'project-1',
+            environmentId: 'env-production'
+          }
+        ],
+        compose: [
+          {
+            composeId: 'compose-workers',
+            name: 'Workers',
+            appName: 'storefront-workers-g7h8i9',
+            composeStatus: 'error',
+            createdAt: '2025-01-04T00:00:00.000Z',
+            repository: 'storefront',
+            owner: 'acme',
+            branch: 'main',
+            projectId: 'project-1',
+            environmentId: 'env-production'
+          }
+        ],
+        postgres: [
+          {
+            postgresId: 'pg-main',
+            name: 'Main DB',
+            appName: 'storefront-db-j1k2l3',
+            applicationStatus: 'done',
+            createdAt: '2025-01-05T00:00:00.000Z',
+            databaseName: 'storefront',
+            databaseUser: 'storefront',
+            databasePassword: 'hunter2',
+            environmentId: 'env-production'
+          }
+        ]
+      },
+      {
+        environmentId: 'env-staging',
+        name: 'staging',
+        applications: [
+          {
+            applicationId: 'app-web-staging',
+            name: 'Web (staging)',
+            appName: 'storefront-web-staging-m4n5o6',
+            applicationStatus: 'running',
+            createdAt: '2025-01-06T00:00:00.000Z',
+            repository: 'storefront',
+            owner: 'acme',
+            branch: 'develop',
+            projectId: 'project-1',
+            environmentId: 'env-staging',
+            serverId: 'node-eu'
+          }
+        ]
+      }
+    ]
+  },
+  {
+    projectId: 'project-2',
+    name: 'Internal',
+    createdAt: '2025-02-01T00:00:00.000Z',
+    compose: [],
+    environments: [
+      {
+        environmentId: 'env-internal',
+        name: 'production',
+        applications: [
+          {
+            applicationId: 'app-admin',
+            name: 'Admin',
+            appName: 'internal-admin-p7q8r9',
+            applicationStatus: 'done',
+            createdAt: '2025-02-02T00:00:00.000Z',
+            repository: 'admin',
+            owner: 'acme',
+            branch: 'main',
+            projectId: 'project-2',
+            environmentId: 'env-internal'
+          }
+        ]
+      }
+    ]
+  }
+];
+
+export const deployments: Record<string, Deployment[]> = {
+  'app-web': [
+    {
+      deploymentId: 'dep-web-2',
+      title: 'Add checkout page',
+      description: 'Hash: 3f2a9c1',
+      status: 'running',
+      logPath: '/etc/dokploy/logs/storefront-web/2.log',
+      createdAt: '2025-03-02T00:00:00.000Z',
+      applicationId: 'app-web'
+    },
+    {
+      deploymentId: 'dep-web-1',
+      title: 'Initial commit',
+      description: 'Hash: 9b8e7d6',
+      status: 'done',
+      logPath: '/etc/dokploy/logs/storefront-web/1.log',
+      createdAt: '2025-03-01T00:00:00.000Z',
+      applicationId: 'app-web'
+    }
+  ],
+  'compose-workers': [
+    {
+      deploymentId: 'dep-workers-1',
+      title: 'Deploy workers',
+      status: 'error',
+      logPath: '/etc/dokploy/logs/storefront-workers/1.log',
+      createdAt: '2025-03-03T00:00:00.000Z',
+      composeId: 'compose-workers'
+    }
+  ]
+};
+
+export const containers: Record<string, Container[]> = {
+  'storefront-web-a1b2c3': [
+    {
+      containerId: 'container-web-1',
+      name: 'storefront-web-a1b2c3.1.abc',
+      image: 'storefront-web:latest',
+      state: 'running',
+      status: 'Up 2 hours'
+    }
+  ]
+};
+
+export const remoteServers: RemoteServer[] = [
+  {
+    serverId: 'node-eu',
+    name: 'eu-1',
+    ipAddress: '10.0.0.5',
+    port: 22,
+    username: 'root',
+    serverStatus: 'active',
+    serverType: 'deploy',
+    metricsConfig: { server: { port: 4500, token: 'metrics-token' } }
+  },
+  {
+    serverId: 'node-us',
+    name: 'us-1',
+    ipAddress: '10.0.1.7',
+    port: 22,
+    username: 'root',
+    serverStatus: 'inactive',
+    serverType: 'build'
+  }
+];
+
+export const serverMetrics: Record<string, ServerMetrics[]> = {
+  'http://10.0.0.1:4500/metrics': [
+    { timestamp: '2025-03-02T10:00:00.000Z', cpu: '4.1', memUsed: '62.3', memUsedGB: '2.5', memTotal: '4', diskUsed: '38.9', totalDisk: '40' }
+  ],
+  'http://10.0.0.5:4500/metrics': [
+    { timestamp: '2025-03-02T10:00:00.000Z', cpu: '12.4', memUsed: '48.6', memUsedGB: '3.9', memTotal: '8', diskUsed: '71.2', totalDisk: '80' }
+  ]
+};
+
+export const metricsToken: MetricsToken = {
+  serverIp: '10.0.0.1',
+  enabledFeatures: true,
+  metricsConfig: { server: { port: 4500, token: 'metrics-token', refreshRate: 30 } }
+};
+
+function containerMetric(containerId: string, timestamp: string, cpu: string, memoryMb: string): ContainerMetric {
+  return {
+    containerId,
+    containerName: `storefront-web-a1b2c3.1.${containerId}`,
+    timestamp,
+    cpu,
+    memory: { percentage: '12.5', used: memoryMb, total: '1', usedUnit: 'MiB', totalUnit: 'GiB' },
+    network: { input: '1.5', output: '800', inputUnit: 'MB', outputUnit: 'kB' },
+    blockIO: { read: '2', write: '0.5', readUnit: 'GB', writeUnit: 'MB' }
+  };
+}
+
+export const containerMetrics: Record<string, ContainerMetric[]> = {
+  'storefront-web-a1b2c3': [
+    containerMetric('container-web-1', '2025-03-02T10:00:00.000Z', '3.2', '120'),
+    containerMetric('container-web-1', '2025-03-02T10:00:30.000Z', '4.8', '128'),
+    containerMetric('container-web-2', '2025-03-02T10:00:30.000Z', '1.1', '96')
+  ]
+};
+
+export const logFrames: Record<string, string[]> = {
+  '/etc/dokploy/logs/storefront-web/2.log': [
+    'Cloning repository acme/storefront\n',
+    'Building image storefront-web\n',
+    'Error: failed to resolve dependency\n'
+  ],
+  'container-web-1': [
+    '2025-03-02T10:00:00.000Z Server listening on port 3000\n',
+    '2025-03-02T10:00:01.000Z GET /health 200\n'
+  ]
+};
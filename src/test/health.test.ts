@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { DokployClient } from '../api/dokploy-client';
+import { checkServerHealth } from '../api/health';
+import { diagnoseConnection, normalizeEndpoint } from '../services/connection-diagnostics';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { API_KEY } from './fixtures';
+import { testServer } from './helpers';
+
+suite('Server health', () => {
+  let server: FakeDokployServer;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+  });
+
+  teardown(async () => {
+    await server.stop();
+  });
+
+  test('reports the Dokploy version and latency of a reachable server', async () => {
+    const health = await checkServerHealth(new DokployClient(server.endpoint, API_KEY, { maxRetries: 0 }));
+
+    assert.strictEqual(health.status, 'ok');
+    assert.strictEqual(health.version, 'v0.22.5');
+    assert.ok(health.latencyMs !== undefined);
+  });
+
+  test('falls back to the project list on servers without a version endpoint', async () => {
+    server.failNext('/api/settings.getDokployVersion', { status: 404, body: { message: 'Not found', code: 'NOT_FOUND' } });
+
+    const health = await checkServerHealth(new DokployClient(server.endpoint, API_KEY, { maxRetries: 0 }));
+
+    assert.strictEqual(health.status, 'ok');
+    assert.strictEqual(health.version, undefined);
+    assert.strictEqual(server.requestsTo('/api/project.all').length, 1);
+  });
+
+  test('classifies rejected keys and unreachable servers', async () => {
+    const rejected = await checkServerHealth(new DokployClient(server.endpoint, 'wrong-key', { maxRetries: 0 }));
+    const endpoint = server.endpoint;
+    await server.stop();
+    const offline = await checkServerHealth(new DokployClient(endpoint, API_KEY, { maxRetries: 0 }));
+
+    assert.strictEqual(rejected.status, 'auth-failed');
+    assert.strictEqual(offline.status, 'unreachable');
+    assert.ok(offline.message);
+  });
+
+  test('diagnoses HTTP, authentication and WebSocket access', async () => {
+    const checks = await diagnoseConnection(testServer(server.endpoint), API_KEY, { timeoutMs: 1000 });
+
+    assert.deepStrictEqual(checks.map(check => check.name), ['Endpoint', 'HTTP', 'Authentication', 'Projects', 'WebSocket']);
+    assert.ok(checks.every(check => check.ok), JSON.stringify(checks));
+  });
+
+  test('stops diagnosing at a rejected API key', async () => {
+    const checks = await diagnoseConnection(testServer(`${server.endpoint}/api`), 'wrong-key', { timeoutMs: 1000 });
+
+    assert.deepStrictEqual(checks.map(check => [check.name, check.ok]), [
+      ['Endpoint', false],
+      ['HTTP', true],
+      ['Authentication', false]
+    ]);
+    assert.match(checks[0].hint ?? '', /Remove the "\/api" suffix/);
+  });
+
+  test('strips the /api suffix and trailing slashes from endpoints', () => {
+    assert.strictEqual(normalizeEndpoint(' https://dokploy.example.com/api/ '), 'https://dokploy.example.com');
+    assert.strictEqual(normalizeEndpoint('https://dokploy.example.com/'), 'https://dokploy.example.com');
+  });
+});
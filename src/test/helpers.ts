@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { DokployClientOptions } from '../api/dokploy-client';
+import { ConfigService } from '../services/config-service';
+import { GitService, RepositoryInfo } from '../services/git-service';
+import { DokployServerConfig } from '../types/dokploy';
+import { API_KEY } from './fixtures';
+
+export class TestConfigService extends ConfigService {
+  private servers: DokployServerConfig[];
+
+  constructor(servers: DokployServerConfig | DokployServerConfig[] | undefined, private apiKey = API_KEY) {
+    super({ secrets: undefined } as unknown as vscode.ExtensionContext);
+    this.servers = servers ? [servers].flat() : [];
+  }
+
+  getServers(): DokployServerConfig[] {
+    return this.servers;
+  }
+
+  async getApiKey(): Promise<string | undefined> {
+    return this.apiKey;
+  }
+
+  getClientOptions(): DokployClientOptions {
+    return { timeoutMs: 2000, maxRetries: 0 };
+  }
+}
+
+export class TestGitService extends GitService {
+  private repositories: RepositoryInfo[];
+
+  constructor(repositories: RepositoryInfo | RepositoryInfo[] | undefined) {
+    super();
+    this.repositories = repositories ? [repositories].flat() : [];
+  }
+
+  async getRepositoryInfos(): Promise<RepositoryInfo[]> {
+    return [...this.repositories];
+  }
+
+  async getRepositoryInfo(folder: vscode.WorkspaceFolder): Promise<RepositoryInfo | undefined> {
+    return this.repositories.find(info => info.folder.uri.toString() === folder.uri.toString());
+  }
+
+  async getCurrentBranch(cwd: string): Promise<string | undefined> {
+    return this.repositories.find(info => info.folder.uri.fsPath === cwd)?.branch;
+  }
+}
+
+export function testServer(endpoint: string, name = 'Test'): DokployServerConfig {
+  return { id: `test-server-${name.toLowerCase()}`, name, endpoint };
+}
+
+export function workspaceFolder(name: string, index = 0): vscode.WorkspaceFolder {
+  return { uri: vscode.Uri.file(`/workspace/${name}`), name, index };
+}
+
+export function repoInfo(owner: string, repo: string, folder = workspaceFolder(repo)): RepositoryInfo {
+  const url = `git@github.com:${owner}/${repo}.git`;
+  return { owner, repo, url, folder, remotes: [{ name: 'origin', host: 'github.com', owner, repo, url }] };
+}
+
+export async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
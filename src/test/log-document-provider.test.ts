@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DokployClient } from '../api/dokploy-client';
+import { getLogFileName, LogDocumentProvider } from '../providers/log-document-provider';
+import { LogsWebview } from '../views/logs-webview';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { API_KEY } from './fixtures';
+import { waitFor } from './helpers';
+
+suite('LogDocumentProvider', () => {
+  const logPath = '/etc/dokploy/logs/storefront-web/2.log';
+
+  let server: FakeDokployServer;
+  let client: DokployClient;
+  let logsWebview: LogsWebview;
+  let provider: LogDocumentProvider;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+    client = new DokployClient(server.endpoint, API_KEY);
+    logsWebview = new LogsWebview(vscode.Uri.file(__dirname));
+    provider = new LogDocumentProvider(logsWebview);
+  });
+
+  teardown(async () => {
+    provider.dispose();
+    logsWebview.dispose();
+    await server.stop();
+  });
+
+  function stream(title: string): void {
+    const wsConfig = client.getDeploymentLogWsConfig(logPath);
+    logsWebview.showWithWebSocket(title, wsConfig.url, wsConfig.headers);
+  }
+
+  test('names documents after the log panel', () => {
+    assert.strictEqual(getLogFileName('Deployment: web'), 'Deployment - web.log');
+    assert.strictEqual(getLogFileName('Runtime Logs: api/v2'), 'Runtime Logs - api - v2.log');
+    assert.strictEqual(LogDocumentProvider.uriFor('Deployment: web').path, '/Deployment - web.log');
+  });
+
+  test('keeps an open document in step with a live stream', async () => {
+    server.frameDelayMs = 100;
+    stream('Deployment: web');
+    await waitFor(() => logsWebview.getText().includes('Cloning repository'));
+
+    const uri = provider.track();
+    assert.ok(provider.provideTextDocumentContent(uri).startsWith('Cloning repository'));
+
+    const changed: string[] = [];
+    provider.onDidChange(changedUri => changed.push(changedUri.toString()));
+
+    await waitFor(() => provider.provideTextDocumentContent(uri).includes('Log stream ended'));
+    assert.strictEqual(provider.provideTextDocumentContent(uri), logsWebview.getText());
+    assert.ok(changed.length > 0);
+    assert.ok(changed.every(changedUri => changedUri === uri.toString()));
+  });
+
+  test('leaves the document of an earlier stream as it ended', async () => {
+    stream('Deployment: first');
+    await waitFor(() => logsWebview.getText().includes('Log stream ended'));
+    const first = provider.track();
+    const ended = provider.provideTextDocumentContent(first);
+
+    stream('Deployment: second');
+    await waitFor(() => logsWebview.getText().includes('Log stream ended'));
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    assert.strictEqual(provider.provideTextDocumentContent(first), ended);
+    assert.strictEqual(provider.provideTextDocumentContent(LogDocumentProvider.uriFor('Deployment: second')), '');
+  });
+});
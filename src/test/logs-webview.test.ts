@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DokployClient } from '../api/dokploy-client';
+import { LogsWebview } from '../views/logs-webview';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { API_KEY } from './fixtures';
+import { waitFor } from './helpers';
+
+suite('LogsWebview', () => {
+  let server: FakeDokployServer;
+  let client: DokployClient;
+  let logsWebview: LogsWebview;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+    client = new DokployClient(server.endpoint, API_KEY);
+    logsWebview = new LogsWebview(vscode.Uri.file(__dirname));
+  });
+
+  teardown(async () => {
+    logsWebview.dispose();
+    await server.stop();
+  });
+
+  function html(): string {
+    return logsWebview['panel']?.webview.html ?? '';
+  }
+
+  function text(): string {
+    return logsWebview.getText();
+  }
+
+  test('streams deployment log frames until the server closes the socket', async () => {
+    const wsConfig = client.getDeploymentLogWsConfig('/etc/dokploy/logs/storefront-web/2.log');
+    logsWebview.showWithWebSocket('Deployment: test', wsConfig.url, wsConfig.headers);
+
+    await waitFor(() => text().includes('Log stream ended'));
+
+    assert.strictEqual(text(), [
+      'Cloning repository acme/storefront',
+      'Building image storefront-web',
+      'Error: failed to resolve dependency',
+      '--- Log stream ended ---'
+    ].join('\n'));
+  });
+
+  test('annotates and stops a followed deployment stream when it is cancelled', async () => {
+    const logPath = '/etc/dokploy/logs/storefront-web/2.log';
+    server.frameDelayMs = 200;
+    const wsConfig = client.getDeploymentLogWsConfig(logPath);
+    logsWebview.showWithWebSocket('Deployment: test', wsConfig.url, wsConfig.headers, logPath);
+
+    await waitFor(() => text().includes('Cloning repository'));
+    logsWebview.endStream('some-other-log', 'Deployment cancelled');
+    assert.ok(!text().includes('Deployment cancelled'));
+
+    logsWebview.endStream(logPath, 'Deployment cancelled');
+    assert.ok(text().includes('Deployment cancelled'));
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    assert.ok(!text().includes('Building image'));
+    assert.ok(!text().includes('Log stream ended'));
+  });
+
+  test('ignores late events of a stream it switched away from', async () => {
+    const wsConfig = client.getDeploymentLogWsConfig('/etc/dokploy/logs/storefront-web/2.log');
+    logsWebview.showWithWebSocket('Deployment: first', wsConfig.url, wsConfig.headers);
+    logsWebview.showWithWebSocket('Deployment: second', wsConfig.url, wsConfig.headers);
+
+    await waitFor(() => text().includes('Log stream ended'));
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    assert.ok(!text().includes('Connection error'));
+    assert.strictEqual(text().split('Log stream ended').length, 2);
+  });
+
+  test('streams runtime logs for the first container of an application', async () => {
+    await logsWebview.showRuntimeLogs({ name: 'Web', appName: 'storefront-web-a1b2c3' }, client);
+
+    await waitFor(() => text().includes('GET /health 200'));
+
+    assert.ok(text().includes('Server listening on port 3000'));
+    const [request] = server.requestsTo('/api/docker.getContainersByAppLabel');
+    assert.strictEqual(request.query.get('appName'), 'storefront-web-a1b2c3');
+  });
+
+  test('loads the log page once and keeps only the newest lines', async () => {
+    logsWebview.setMaxLines(2);
+    const wsConfig = client.getDeploymentLogWsConfig('/etc/dokploy/logs/storefront-web/2.log');
+    logsWebview.showWithWebSocket('Deployment: test', wsConfig.url, wsConfig.headers);
+    const page = html();
+
+    await waitFor(() => text().includes('Log stream ended'));
+
+    assert.strictEqual(text(), 'Error: failed to resolve dependency\n--- Log stream ended ---');
+    assert.strictEqual(html(), page);
+    assert.ok(!page.includes('failed to resolve dependency'));
+  });
+
+  test('holds back a partial line until the rest of it arrives', async () => {
+    server.logFrames['/partial.log'] = ['Step 1/2: \x1b[32mFROM', ' node:20\nStep 2/2'];
+    const wsConfig = client.getDeploymentLogWsConfig('/partial.log');
+    logsWebview.showWithWebSocket('Deployment: test', wsConfig.url, wsConfig.headers);
+
+    await waitFor(() => text().includes('Log stream ended'));
+
+    assert.strictEqual(text(), 'Step 1/2: FROM node:20\nStep 2/2\n--- Log stream ended ---');
+  });
+
+  test('shows the empty state when an application has no containers', async () => {
+    await logsWebview.showRuntimeLogs({ name: 'Docs', appName: 'storefront-docs-d4e5f6' }, client);
+
+    assert.ok(html().includes('No Running Containers'));
+  });
+});
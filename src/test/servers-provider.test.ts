@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { DeploymentsProvider } from '../providers/deployments-provider';
+import { NodeItem, ServerItem, ServersProvider } from '../providers/servers-provider';
+import { FakeDokployServer } from './fake-dokploy-server';
+import { repoInfo, TestConfigService, TestGitService, testServer } from './helpers';
+
+suite('ServersProvider', () => {
+  let server: FakeDokployServer;
+
+  setup(async () => {
+    server = new FakeDokployServer();
+    await server.start();
+  });
+
+  teardown(async () => {
+    await server.stop();
+  });
+
+  async function createProvider(apiKey?: string): Promise<ServersProvider> {
+    const configService = new TestConfigService(testServer(server.endpoint), apiKey);
+    const deploymentsProvider = new DeploymentsProvider(configService, new TestGitService(repoInfo('acme', 'storefront')));
+    await deploymentsProvider.initialize();
+    const provider = new ServersProvider(configService, deploymentsProvider);
+    await provider.reload();
+    return provider;
+  }
+
+  test('shows the health and latency of each server', async () => {
+    const provider = await createProvider();
+
+    const [item] = await provider.getChildren() as ServerItem[];
+
+    assert.strictEqual(item.health?.status, 'ok');
+    assert.strictEqual(item.health?.version, 'v0.22.5');
+    assert.match(String(item.description), /^\d+ms · /);
+  });
+
+  test('lists remote nodes with metrics and the matched services on each', async () => {
+    const provider = await createProvider();
+
+    const [item] = await provider.getChildren();
+    const nodes = await provider.getChildren(item) as NodeItem[];
+
+    assert.deepStrictEqual(nodes.map(node => node.label), ['Dokploy host', 'eu-1', 'us-1']);
+    assert.deepStrictEqual(nodes[0].services.map(service => service.name), ['Web', 'Workers']);
+    assert.strictEqual(nodes[1].description, '10.0.0.5 · active · CPU 12% · Mem 49% · Disk 71%');
+    assert.deepStrictEqual((await provider.getChildren(nodes[1])).map(child => child.label), ['Web (staging)']);
+    assert.strictEqual(nodes[0].description, 'CPU 4% · Mem 62% · Disk 39%');
+    assert.strictEqual(nodes[2].description, '10.0.1.7 · inactive');
+    assert.strictEqual(server.requestsTo('/api/server.getServerMetrics').length, 2);
+  });
+
+  test('expands a single-node install to show the Dokploy host', async () => {
+    server.remoteServers.splice(0);
+    const provider = await createProvider();
+
+    const [item] = await provider.getChildren() as ServerItem[];
+    const nodes = await provider.getChildren(item) as NodeItem[];
+
+    assert.strictEqual(item.collapsibleState, 1);
+    assert.deepStrictEqual(nodes.map(node => node.label), ['Dokploy host']);
+    assert.deepStrictEqual(nodes[0].services.map(service => service.name), ['Web', 'Workers']);
+  });
+
+  test('does not list nodes of a server that rejects the API key', async () => {
+    const provider = await createProvider('wrong-key');
+
+    const [item] = await provider.getChildren() as ServerItem[];
+
+    assert.strictEqual(item.health?.status, 'auth-failed');
+    assert.strictEqual(item.collapsibleState, 0);
+    assert.strictEqual(server.requestsTo('/api/server.all').length, 0);
+  });
+});
@@ -8,6 +8,12 @@ export interface Environment {
   environmentId: string;
   name: string;
   applications: Application[];
+  compose?: Compose[];
+  postgres?: Postgres[];
+  mysql?: MySql[];
+  mariadb?: Mariadb[];
+  mongo?: Mongo[];
+  redis?: Redis[];
 }
 
 export interface Project {
@@ -19,17 +25,45 @@ export interface Project {
   compose: Compose[];
 }
 
-export interface Application {
+export type SourceType =
+  | 'github'
+  | 'gitlab'
+  | 'bitbucket'
+  | 'gitea'
+  | 'git'
+  | 'docker'
+  | 'drop'
+  | 'raw';
+
+interface GitSourceFields {
+  sourceType?: SourceType;
+  repository?: string;
+  owner?: string;
+  branch?: string;
+  gitlabRepository?: string | null;
+  gitlabOwner?: string | null;
+  gitlabBranch?: string | null;
+  gitlabPathNamespace?: string | null;
+  bitbucketRepository?: string | null;
+  bitbucketOwner?: string | null;
+  bitbucketBranch?: string | null;
+  giteaRepository?: string | null;
+  giteaOwner?: string | null;
+  giteaBranch?: string | null;
+  customGitUrl?: string | null;
+  customGitBranch?: string | null;
+}
+
+export interface Application extends GitSourceFields {
   applicationId: string;
   name: string;
   appName: string;
   description?: string;
   applicationStatus: ApplicationStatus;
   createdAt: string;
-  repository?: string;
-  owner?: string;
-  branch?: string;
   buildPath?: string;
+  env?: string | null;
+  buildArgs?: string | null;
   domains?: Domain[];
   projectId: string;
   environmentId?: string;
@@ -42,16 +76,75 @@ export type ApplicationStatus =
   | 'done'
   | 'error';
 
-export interface Compose {
+export interface Compose extends GitSourceFields {
   composeId: string;
   name: string;
   appName: string;
   description?: string;
   composeStatus: ApplicationStatus;
   createdAt: string;
+  composePath?: string;
   projectId: string;
+  environmentId?: string;
+  serverId?: string;
+}
+
+export type DatabaseType =
+  | 'postgres'
+  | 'mysql'
+  | 'mariadb'
+  | 'mongo'
+  | 'redis';
+
+interface DatabaseBase {
+  name: string;
+  appName: string;
+  description?: string;
+  applicationStatus: ApplicationStatus;
+  createdAt: string;
+  dockerImage?: string;
+  externalPort?: number | null;
+  projectId?: string;
+  environmentId?: string;
+  serverId?: string;
+}
+
+export interface Postgres extends DatabaseBase {
+  postgresId: string;
+  databaseName: string;
+  databaseUser: string;
+  databasePassword: string;
+}
+
+export interface MySql extends DatabaseBase {
+  mysqlId: string;
+  databaseName: string;
+  databaseUser: string;
+  databasePassword: string;
+  databaseRootPassword: string;
 }
 
+export interface Mariadb extends DatabaseBase {
+  mariadbId: string;
+  databaseName: string;
+  databaseUser: string;
+  databasePassword: string;
+  databaseRootPassword: string;
+}
+
+export interface Mongo extends DatabaseBase {
+  mongoId: string;
+  databaseUser: string;
+  databasePassword: string;
+}
+
+export interface Redis extends DatabaseBase {
+  redisId: string;
+  databasePassword: string;
+}
+
+export type Database = Postgres | MySql | Mariadb | Mongo | Redis;
+
 export interface Deployment {
   deploymentId: string;
   title?: string;
@@ -61,6 +154,7 @@ export interface Deployment {
   createdAt: string;
   applicationId?: string;
   composeId?: string;
+  rollbackId?: string | null;
 }
 
 export type DeploymentStatus =
@@ -68,12 +162,33 @@ export type DeploymentStatus =
   | 'done'
   | 'error';
 
+export type CertificateType =
+  | 'letsencrypt'
+  | 'none'
+  | 'custom';
+
 export interface Domain {
   domainId: string;
   host: string;
-  port?: number;
+  path?: string | null;
+  port?: number | null;
+  https: boolean;
+  certificateType?: CertificateType;
+  applicationId?: string | null;
+  composeId?: string | null;
+}
+
+export interface DomainInput {
+  host: string;
+  path: string;
+  port: number;
   https: boolean;
-  certificateType?: string;
+  certificateType: CertificateType;
+}
+
+export interface ApplicationEnvironment {
+  env: string;
+  buildArgs: string;
 }
 
 export interface Container {
@@ -84,6 +199,77 @@ export interface Container {
   status: string;
 }
 
+export type RemoteServerStatus = 'active' | 'inactive';
+
+/** A build or deploy node managed by a Dokploy instance. */
+export interface RemoteServer {
+  serverId: string;
+  name: string;
+  description?: string | null;
+  ipAddress: string;
+  port: number;
+  username: string;
+  serverStatus: RemoteServerStatus;
+  serverType?: 'deploy' | 'build';
+  metricsConfig?: {
+    server?: {
+      port: number;
+      token: string;
+      /** Seconds between samples. */
+      refreshRate?: number;
+    };
+  };
+}
+
+/** One sample from a node's monitoring agent. Percentages may come as strings. */
+export interface ServerMetrics {
+  timestamp: string;
+  cpu: number | string;
+  memUsed: number | string;
+  memUsedGB?: number | string;
+  memTotal?: number | string;
+  diskUsed: number | string;
+  totalDisk?: number | string;
+  uptime?: number;
+}
+
+/** Where a monitoring agent listens, as configured for the Dokploy host. */
+export interface MetricsToken {
+  serverIp?: string | null;
+  enabledFeatures?: boolean;
+  metricsConfig?: RemoteServer['metricsConfig'];
+}
+
+/**
+ * One container sample from a monitoring agent. Sizes come with their unit,
+ * network and block I/O are totals since the container started.
+ */
+export interface ContainerMetric {
+  containerId: string;
+  containerName: string;
+  timestamp: string;
+  cpu: number | string;
+  memory: {
+    percentage: number | string;
+    used: number | string;
+    total: number | string;
+    usedUnit: string;
+    totalUnit: string;
+  };
+  network: {
+    input: number | string;
+    output: number | string;
+    inputUnit: string;
+    outputUnit: string;
+  };
+  blockIO: {
+    read: number | string;
+    write: number | string;
+    readUnit: string;
+    writeUnit: string;
+  };
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -0,0 +1,37 @@
+import { Event, Uri } from 'vscode';
+
+// Subset of the built-in git extension API (extensions/git/src/api/git.d.ts)
+
+export interface UpstreamRef {
+  remote: string;
+  name: string;
+}
+
+export interface Branch {
+  name?: string;
+  commit?: string;
+  upstream?: UpstreamRef;
+  ahead?: number;
+  behind?: number;
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly onDidChange: Event<void>;
+}
+
+export interface Repository {
+  readonly rootUri: Uri;
+  readonly state: RepositoryState;
+}
+
+export interface GitAPI {
+  readonly repositories: Repository[];
+  readonly onDidOpenRepository: Event<Repository>;
+  readonly onDidCloseRepository: Event<Repository>;
+  toGitUri(uri: Uri, ref: string): Uri;
+}
+
+export interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
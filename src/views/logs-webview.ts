@@ -7,8 +7,10 @@ import { Application, Container } from '../types/dokploy';
 
 type LogType = 'error' | 'warning' | 'success' | 'info' | 'debug';
 
+export type RuntimeLogsTarget = Pick<Application, 'name' | 'appName' | 'serverId'>;
+
 interface RuntimeLogsConfig {
-  app: Application;
+  app: RuntimeLogsTarget;
   client: DokployClient;
   containers: Container[];
   selectedContainerId: string;
@@ -16,11 +18,30 @@ interface RuntimeLogsConfig {
 }
 
 interface WebviewMessage {
-  command: 'changeContainer' | 'changeTail' | 'refresh';
+  command: 'ready' | 'changeContainer' | 'changeTail' | 'refresh' | 'openInEditor' | 'saveAs';
   containerId?: string;
   tail?: number;
 }
 
+/**
+ * A formatted line as sent to the webview. Markers are the annotations the
+ * extension adds, such as the end of a stream.
+ */
+interface LogEntry {
+  type: LogType | 'marker';
+  timestamp: string;
+  html: string;
+  /** The message without timestamp and ANSI codes, searched by the page. */
+  message: string;
+  text: string;
+}
+
+export const DEFAULT_MAX_LOG_LINES = 10000;
+
+const TAIL_OPTIONS = [100, 500, 1000, 5000];
+
+const ROW_HEIGHT = 20;
+
 interface ParsedLogLine {
   timestamp: Date | null;
   message: string;
@@ -157,6 +178,12 @@ function escapeHtml(text: string): string {
     .replace(/'/g, '&#039;');
 }
 
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
 const ansiConverter = new AnsiToHtml({
   fg: 'inherit',
   bg: 'transparent',
@@ -180,48 +207,99 @@ const ansiConverter = new AnsiToHtml({
   }
 });
 
+/**
+ * Streams logs into a webview page that is loaded once per panel. Lines are
+ * formatted here and posted in batches; the page only renders the rows in
+ * view, so long tails stay responsive and keep their scroll position.
+ */
 export class LogsWebview {
   private panel: vscode.WebviewPanel | undefined;
   private ws: WebSocket | undefined;
-  private logBuffer: string = '';
+  private entries: LogEntry[] = [];
+  private partialLine = '';
+  private status = '';
+  private maxLines = DEFAULT_MAX_LOG_LINES;
   private timestamp = false;
   private runtimeConfig: RuntimeLogsConfig | undefined;
   private isRuntimeLogs = false;
+  private streamKey: string | undefined;
+  private page: 'logs' | 'empty' | undefined;
+  private ready = false;
+  private title = '';
+
+  private _onDidChangeContent = new vscode.EventEmitter<void>();
+  readonly onDidChangeContent = this._onDidChangeContent.event;
 
   constructor(private extensionUri: vscode.Uri, timestamp = false) {
     this.timestamp = timestamp;
   }
 
-  async showRuntimeLogs(app: Application, client: DokployClient): Promise<void> {
-    log(`Opening runtime logs for: ${app.name}`);
+  /**
+   * Caps the number of buffered lines; the oldest lines are dropped first.
+   */
+  setMaxLines(maxLines: number): void {
+    this.maxLines = Math.max(1, maxLines);
+    if (this.entries.length > this.maxLines) {
+      this.entries.splice(0, this.entries.length - this.maxLines);
+      this._onDidChangeContent.fire();
+    }
+    this.postSnapshot();
+  }
 
-    const containers = await client.getContainersByAppLabel(app.appName);
+  /**
+   * The title of the panel, which names the stream being shown.
+   */
+  getTitle(): string {
+    return this.title;
+  }
 
-    if (containers.length === 0) {
-      this.showEmptyState(app.name);
-      return;
+  hasLogs(): boolean {
+    return this.panel !== undefined && this.page === 'logs';
+  }
+
+  /**
+   * The buffered log without ANSI escape codes.
+   */
+  getText(): string {
+    const lines = this.entries.map(entry => entry.text);
+    if (this.partialLine) {
+      lines.push(stripAnsi(this.partialLine));
     }
+    return lines.join('\n');
+  }
+
+  async showRuntimeLogs(app: RuntimeLogsTarget, client: DokployClient): Promise<void> {
+    log(`Opening runtime logs for: ${app.name}`);
+
+    const containers = await client.getContainersByAppLabel(app.appName);
 
     this.runtimeConfig = {
       app,
       client,
       containers,
-      selectedContainerId: containers[0].containerId,
-      tail: 100
+      selectedContainerId: containers[0]?.containerId ?? '',
+      tail: this.runtimeConfig?.tail ?? TAIL_OPTIONS[0]
     };
     this.isRuntimeLogs = true;
+    this.streamKey = undefined;
+
+    if (containers.length === 0) {
+      this.showEmptyState(app.name);
+      return;
+    }
 
     this.createOrRevealPanel(`Runtime Logs: ${app.name}`);
-    this.setupMessageHandler();
     this.connectToRuntimeLogs();
   }
 
   private showEmptyState(appName: string): void {
     this.createOrRevealPanel(`Runtime Logs: ${appName}`);
-    this.isRuntimeLogs = true;
-    this.setupMessageHandler();
+    this.closeWebSocket();
+    this.clear();
 
     if (this.panel) {
+      this.page = 'empty';
+      this.ready = false;
       this.panel.webview.html = this.getEmptyStateHtml(appName);
     }
   }
@@ -242,183 +320,273 @@ export class LogsWebview {
 
       this.panel.onDidDispose(() => {
         this.panel = undefined;
+        this.page = undefined;
+        this.ready = false;
         this.closeWebSocket();
         this.runtimeConfig = undefined;
         this.isRuntimeLogs = false;
       });
+
+      this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
     }
 
     this.panel.title = title;
+    this.title = title;
   }
 
-  private setupMessageHandler(): void {
-    if (!this.panel) return;
+  private async handleMessage(message: WebviewMessage): Promise<void> {
+    if (message.command === 'ready') {
+      this.ready = true;
+      this.postSnapshot();
+      return;
+    }
 
-    this.panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
-      if (!this.runtimeConfig) return;
+    if (message.command === 'openInEditor') {
+      await vscode.commands.executeCommand('dokploy.openLogsInEditor');
+      return;
+    }
 
-      switch (message.command) {
-        case 'changeContainer':
-          if (message.containerId) {
-            this.runtimeConfig.selectedContainerId = message.containerId;
-            this.connectToRuntimeLogs();
-          }
-          break;
-        case 'changeTail':
-          if (message.tail) {
-            this.runtimeConfig.tail = message.tail;
-            this.connectToRuntimeLogs();
-          }
-          break;
-        case 'refresh':
-          const containers = await this.runtimeConfig.client.getContainersByAppLabel(
-            this.runtimeConfig.app.appName
-          );
-          if (containers.length === 0) {
-            this.showEmptyState(this.runtimeConfig.app.name);
-          } else {
-            this.runtimeConfig.containers = containers;
-            this.runtimeConfig.selectedContainerId = containers[0].containerId;
-            this.connectToRuntimeLogs();
-          }
-          break;
-      }
-    });
+    if (message.command === 'saveAs') {
+      await vscode.commands.executeCommand('dokploy.saveLogsAs');
+      return;
+    }
+
+    if (!this.runtimeConfig) return;
+
+    switch (message.command) {
+      case 'changeContainer':
+        if (message.containerId) {
+          this.runtimeConfig.selectedContainerId = message.containerId;
+          this.connectToRuntimeLogs();
+        }
+        break;
+      case 'changeTail':
+        if (message.tail) {
+          this.runtimeConfig.tail = message.tail;
+          this.connectToRuntimeLogs();
+        }
+        break;
+      case 'refresh':
+        const containers = await this.runtimeConfig.client.getContainersByAppLabel(
+          this.runtimeConfig.app.appName
+        );
+        if (containers.length === 0) {
+          this.showEmptyState(this.runtimeConfig.app.name);
+        } else {
+          this.runtimeConfig.containers = containers;
+          this.runtimeConfig.selectedContainerId = containers[0].containerId;
+          this.connectToRuntimeLogs();
+        }
+        break;
+    }
   }
 
   private connectToRuntimeLogs(): void {
     if (!this.runtimeConfig || !this.panel) return;
 
-    const { client, selectedContainerId, tail, app, containers } = this.runtimeConfig;
+    const { client, selectedContainerId, tail, app } = this.runtimeConfig;
     const wsConfig = client.getRuntimeLogWsConfig(selectedContainerId, tail, app.serverId);
 
-    this.logBuffer = '';
-    this.updateRuntimeContent('Connecting to log stream...', containers, selectedContainerId, tail);
-    this.connectWebSocket(wsConfig.url, wsConfig.headers, true);
+    this.startStream();
+    this.connectWebSocket(wsConfig.url, wsConfig.headers);
   }
 
-  private updateRuntimeContent(
-    logContent: string,
-    containers: Container[],
-    selectedContainerId: string,
-    tail: number
-  ): void {
-    if (!this.panel) return;
-
-    const lines = logContent.split('\n');
-    const htmlLines = lines.map(line => this.formatLogLine(line));
-
-    this.panel.webview.html = this.getRuntimeHtml(
-      htmlLines.join('\n'),
-      containers,
-      selectedContainerId,
-      tail
-    );
-  }
-
-  showWithWebSocket(title: string, wsUrl: string, headers?: Record<string, string>): void {
+  showWithWebSocket(title: string, wsUrl: string, headers?: Record<string, string>, streamKey?: string): void {
     log(`Opening logs webview with WebSocket: ${wsUrl}`);
 
     this.isRuntimeLogs = false;
     this.runtimeConfig = undefined;
+    this.streamKey = streamKey;
 
     this.createOrRevealPanel(title);
-
-    this.logBuffer = '';
-    this.updateContent('Connecting to log stream...');
-    this.connectWebSocket(wsUrl, headers, false);
+    this.startStream();
+    this.connectWebSocket(wsUrl, headers);
   }
 
-  private connectWebSocket(wsUrl: string, headers?: Record<string, string>, isRuntime = false): void {
+  /**
+   * Clears the buffer and loads the log page unless it is already showing,
+   * in which case it is reset in place.
+   */
+  private startStream(): void {
     this.closeWebSocket();
+    this.clear();
+    this.status = 'Connecting to log stream...';
+
+    if (!this.panel) return;
 
+    if (this.page === 'logs') {
+      this.postSnapshot();
+    } else {
+      this.page = 'logs';
+      this.ready = false;
+      this.panel.webview.html = this.getHtml();
+    }
+  }
+
+  private connectWebSocket(wsUrl: string, headers?: Record<string, string>): void {
     this.ws = new WebSocket(wsUrl, { headers });
 
     this.ws.on('open', () => {
       log('WebSocket connected');
-      this.logBuffer = '';
-      if (isRuntime && this.runtimeConfig) {
-        const { containers, selectedContainerId, tail } = this.runtimeConfig;
-        this.updateRuntimeContent('Connected. Waiting for logs...', containers, selectedContainerId, tail);
-      } else {
-        this.updateContent('Connected. Waiting for logs...');
-      }
+      this.setStatus('Connected. Waiting for logs...');
     });
 
     this.ws.on('message', (data: WebSocket.Data) => {
-      const message = data.toString();
-      this.logBuffer += message;
-      if (isRuntime && this.runtimeConfig) {
-        const { containers, selectedContainerId, tail } = this.runtimeConfig;
-        this.updateRuntimeContent(this.logBuffer, containers, selectedContainerId, tail);
-      } else {
-        this.updateContent(this.logBuffer);
-      }
+      this.append(data.toString());
     });
 
     this.ws.on('error', (error) => {
       log('WebSocket error:', error);
-      const errorContent = `Connection error: ${error.message}\n\n${this.logBuffer}`;
-      if (isRuntime && this.runtimeConfig) {
-        const { containers, selectedContainerId, tail } = this.runtimeConfig;
-        this.updateRuntimeContent(errorContent, containers, selectedContainerId, tail);
-      } else {
-        this.updateContent(errorContent);
-      }
+      this.flushPartialLine();
+      this.addMarker(`Connection error: ${error.message}`);
     });
 
     this.ws.on('close', () => {
       log('WebSocket closed');
-      if (this.logBuffer) {
-        const closedContent = this.logBuffer + '\n\n--- Log stream ended ---';
-        if (isRuntime && this.runtimeConfig) {
-          const { containers, selectedContainerId, tail } = this.runtimeConfig;
-          this.updateRuntimeContent(closedContent, containers, selectedContainerId, tail);
-        } else {
-          this.updateContent(closedContent);
-        }
+      this.flushPartialLine();
+      if (this.entries.length > 0) {
+        this.addMarker('Log stream ended');
       }
     });
   }
 
+  /**
+   * Stops following the stream opened with `streamKey` (if it is still the one
+   * shown) and marks the end of the log with `reason`.
+   */
+  endStream(streamKey: string, reason: string): void {
+    if (!this.panel || this.isRuntimeLogs || this.streamKey !== streamKey) {
+      return;
+    }
+
+    this.closeWebSocket();
+    this.streamKey = undefined;
+    this.flushPartialLine();
+    this.addMarker(reason);
+  }
+
+  /**
+   * Closes the socket without letting its late error or close events add
+   * markers to whatever is shown next.
+   */
   private closeWebSocket(): void {
     if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => undefined);
       this.ws.close();
       this.ws = undefined;
     }
   }
 
-  private updateContent(logContent: string): void {
-    if (!this.panel) {
-      return;
+  private clear(): void {
+    this.entries = [];
+    this.partialLine = '';
+    this._onDidChangeContent.fire();
+  }
+
+  /**
+   * Adds the complete lines of a frame. A trailing partial line is held back
+   * until the rest of it arrives or the stream ends.
+   */
+  private append(text: string): void {
+    const lines = (this.partialLine + text).split('\n');
+    this.partialLine = lines.pop() ?? '';
+    this.addEntries(lines.map(line => this.toEntry(line)));
+    this._onDidChangeContent.fire();
+  }
+
+  private flushPartialLine(): void {
+    if (this.partialLine) {
+      const line = this.partialLine;
+      this.partialLine = '';
+      this.addEntries([this.toEntry(line)]);
     }
+  }
 
-    const lines = logContent.split('\n');
-    const htmlLines = lines.map(line => {
-      if (!line.trim()) {
-        return '<div class="log-line log-empty">&nbsp;</div>';
-      }
+  private addMarker(text: string): void {
+    const marker = `--- ${text} ---`;
+    this.addEntries([{ type: 'marker', timestamp: '', html: escapeHtml(marker), message: marker, text: marker }]);
+  }
+
+  private addEntries(entries: LogEntry[]): void {
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      this.entries.push(entry);
+    }
+    if (this.entries.length > this.maxLines) {
+      this.entries.splice(0, this.entries.length - this.maxLines);
+    }
+
+    this.post({ command: 'append', entries: entries.slice(-this.maxLines) });
+    this._onDidChangeContent.fire();
+  }
+
+  private setStatus(status: string): void {
+    this.status = status;
+    this.post({ command: 'status', status });
+  }
+
+  private toEntry(line: string): LogEntry {
+    if (!line.trim()) {
+      return { type: 'debug', timestamp: '', html: '', message: '', text: '' };
+    }
+
+    const parsed = parseLogLine(line);
+    const style = getLogType(parsed.message);
+    return {
+      type: style.type,
+      timestamp: this.timestamp && parsed.timestamp ? formatTimestamp(parsed.timestamp) : '',
+      html: ansiConverter.toHtml(escapeHtml(parsed.message)),
+      message: stripAnsi(parsed.message),
+      text: stripAnsi(line)
+    };
+  }
 
-      const parsed = parseLogLine(line);
-      const style = getLogType(parsed.message);
-      const messageHtml = ansiConverter.toHtml(escapeHtml(parsed.message));
-      const timestampHtml = this.timestamp ? parsed.timestamp
-        ? `<span class="log-timestamp">${formatTimestamp(parsed.timestamp)}</span>`
-        : '<span class="log-timestamp"></span>'
-        : '';
-
-      return `<div class="log-line ${style.bgClass}">
-        <div class="log-border" style="background-color: ${style.borderColor}"></div>
-        ${timestampHtml}
-        <span class="log-badge" style="background-color: ${style.badgeBg}; color: ${style.badgeText}">${style.type}</span>
-        <span class="log-message">${messageHtml}</span>
-      </div>`;
+  private postSnapshot(): void {
+    const runtime = this.isRuntimeLogs && this.runtimeConfig
+      ? {
+        containers: this.runtimeConfig.containers.map(c => ({ id: c.containerId, label: `${c.name} (${c.state})` })),
+        selectedContainerId: this.runtimeConfig.selectedContainerId,
+        tail: this.runtimeConfig.tail,
+        tailOptions: TAIL_OPTIONS
+      }
+      : undefined;
+
+    this.post({
+      command: 'reset',
+      entries: this.entries,
+      status: this.status,
+      maxLines: this.maxLines,
+      timestamp: this.timestamp,
+      runtime
     });
+  }
 
-    this.panel.webview.html = this.getHtml(htmlLines.join('\n'));
+  private post(message: unknown): void {
+    if (this.panel && this.page === 'logs' && this.ready) {
+      this.panel.webview.postMessage(message);
+    }
   }
 
-  private getHtml(content: string): string {
+  private getHtml(): string {
+    const typeStyles = Object.values(LOG_STYLES).map(style => `
+    .${style.bgClass} .log-border {
+      background-color: ${style.borderColor};
+    }
+    .${style.bgClass} .log-badge {
+      background-color: ${style.badgeBg};
+      color: ${style.badgeText};
+    }`).join('\n');
+    const chipStyles = Object.values(LOG_STYLES).map(style => `
+    .toolbar button.chip-${style.type} {
+      background-color: ${style.badgeBg};
+      color: ${style.badgeText};
+    }`).join('\n');
+    const chips = Object.values(LOG_STYLES)
+      .map(style => `<button class="chip chip-${style.type}" data-level="${style.type}" aria-pressed="true" onclick="toggleLevel('${style.type}')">${style.type}</button>`)
+      .join('');
+
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -426,325 +594,632 @@ export class LogsWebview {
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Logs</title>
   <style>
-    * {
-      box-sizing: border-box;
-    }
+    ${this.getSharedStyles()}
 
     body {
-      background-color: var(--vscode-editor-background);
-      color: var(--vscode-editor-foreground);
-      font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
-      font-size: 12px;
-      line-height: 1.4;
-      padding: 0;
-      margin: 0;
+      height: 100vh;
+      display: flex;
+      flex-direction: column;
+      overflow: hidden;
     }
 
-    .toolbar {
-      position: fixed;
-      top: 0;
-      right: 0;
-      left: 0;
-      padding: 8px 16px;
+    header {
+      flex-shrink: 0;
       background: var(--vscode-sideBar-background);
       border-bottom: 1px solid var(--vscode-sideBar-border, var(--vscode-panel-border));
-      z-index: 100;
-      display: flex;
-      justify-content: flex-end;
-      gap: 8px;
     }
 
-    .toolbar button {
-      background: var(--vscode-button-background);
-      color: var(--vscode-button-foreground);
-      border: none;
-      padding: 4px 12px;
-      cursor: pointer;
+    header .toolbar {
+      position: static;
+      border-bottom: none;
+      justify-content: space-between;
+      flex-wrap: wrap;
+    }
+
+    header .toolbar + .toolbar {
+      padding-top: 0;
+    }
+
+    .search {
+      display: flex;
+      align-items: center;
+      gap: 2px;
+      background: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent);
       border-radius: 2px;
-      font-size: 12px;
+      padding: 0 2px;
     }
 
-    .toolbar button:hover {
-      background: var(--vscode-button-hoverBackground);
+    .search:focus-within {
+      outline: 1px solid var(--vscode-focusBorder);
     }
 
-    #log-content {
-      padding: 48px 8px 16px 8px;
+    .search.invalid {
+      border-color: var(--vscode-inputValidation-errorBorder);
     }
 
-    .log-line {
-      display: flex;
-      align-items: start;
-      gap: 8px;
-      padding: 3px 8px;
-      border-radius: 3px;
-      margin-bottom: 1px;
-      min-height: 22px;
+    .search input {
+      background: transparent;
+      color: var(--vscode-input-foreground);
+      border: none;
+      outline: none;
+      padding: 4px;
+      width: 220px;
+      font-size: 12px;
     }
 
-    .log-line:hover {
-      background-color: var(--vscode-list-hoverBackground);
+    .toolbar button.toggle,
+    .toolbar button.icon {
+      background: transparent;
+      color: var(--vscode-foreground);
+      padding: 2px 6px;
+      font-family: var(--vscode-editor-font-family, monospace);
     }
 
-    .log-empty {
-      height: 22px;
+    .toolbar button.toggle[aria-pressed="true"] {
+      background: var(--vscode-inputOption-activeBackground);
+      color: var(--vscode-inputOption-activeForeground);
+      outline: 1px solid var(--vscode-inputOption-activeBorder, transparent);
     }
 
-    .log-border {
-      width: 3px;
-      flex-shrink: 0;
-      border-radius: 2px;
-      align-self: stretch;
+    .toolbar button.toggle:hover,
+    .toolbar button.icon:hover {
+      background: var(--vscode-toolbar-hoverBackground);
     }
 
-    .log-timestamp {
-      width: 140px;
-      flex-shrink: 0;
-      color: var(--vscode-descriptionForeground);
+    #matchCount {
+      min-width: 80px;
       font-size: 11px;
-      display: flex;
-      align-items: center;
+      color: var(--vscode-descriptionForeground);
     }
 
-    .log-badge {
-      width: 54px;
-      flex-shrink: 0;
-      text-align: center;
-      padding: 1px 4px;
-      border-radius: 3px;
-      font-size: 10px;
-      font-weight: 600;
-      text-transform: uppercase;
+    .chips {
       display: flex;
-      align-items: center;
-      justify-content: center;
+      gap: 4px;
     }
 
-    .log-message {
-      flex: 1;
-      white-space: pre-wrap;
-      word-break: break-all;
-      font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
+    .toolbar button.chip {
+      border-radius: 10px;
+      padding: 2px 10px;
+      font-size: 11px;
+      text-transform: uppercase;
+      opacity: 0.45;
     }
 
-    /* Log type backgrounds */
-    .log-error {
-      background-color: rgba(244, 67, 54, 0.1);
-    }
-    .log-error:hover {
-      background-color: rgba(244, 67, 54, 0.15);
+    .toolbar button.chip[aria-pressed="true"] {
+      opacity: 1;
     }
 
-    .log-warning {
-      background-color: rgba(255, 152, 0, 0.1);
-    }
-    .log-warning:hover {
-      background-color: rgba(255, 152, 0, 0.15);
+    mark.match {
+      background: var(--vscode-editor-findMatchHighlightBackground);
+      color: inherit;
     }
 
-    .log-success {
-      background-color: rgba(76, 175, 80, 0.1);
-    }
-    .log-success:hover {
-      background-color: rgba(76, 175, 80, 0.15);
+    mark.match.current {
+      background: var(--vscode-editor-findMatchBackground);
+      outline: 1px solid var(--vscode-editor-findMatchBorder, transparent);
     }
 
-    .log-info {
-      background-color: rgba(33, 150, 243, 0.1);
-    }
-    .log-info:hover {
-      background-color: rgba(33, 150, 243, 0.15);
+    .toolbar select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      padding: 4px 8px;
+      border-radius: 2px;
+      font-size: 12px;
+      cursor: pointer;
     }
 
-    .log-debug {
-      background-color: transparent;
+    .toolbar select:focus {
+      outline: 1px solid var(--vscode-focusBorder);
     }
 
-    /* Light theme adjustments */
-    body.vscode-light .log-badge {
-      font-weight: 700;
+    .toolbar-left,
+    .toolbar-right {
+      display: flex;
+      gap: 8px;
+      align-items: center;
     }
 
-    body.vscode-light .log-error .log-badge {
-      color: #c62828;
-      background-color: rgba(244, 67, 54, 0.25);
+    .toolbar label {
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
     }
 
-    body.vscode-light .log-warning .log-badge {
-      color: #e65100;
-      background-color: rgba(255, 152, 0, 0.25);
+    #viewport {
+      flex: 1;
+      overflow: auto;
+      position: relative;
+      padding: 0 8px;
     }
 
-    body.vscode-light .log-success .log-badge {
-      color: #2e7d32;
-      background-color: rgba(76, 175, 80, 0.25);
+    #spacer {
+      width: max-content;
+      min-width: 100%;
     }
 
-    body.vscode-light .log-info .log-badge {
-      color: #1565c0;
-      background-color: rgba(33, 150, 243, 0.25);
+    #rows {
+      will-change: transform;
     }
 
-    body.vscode-light .log-debug .log-badge {
-      color: #616161;
-      background-color: rgba(158, 158, 158, 0.25);
+    #placeholder {
+      position: absolute;
+      top: 8px;
+      left: 16px;
+      color: var(--vscode-descriptionForeground);
     }
 
-    /* High contrast theme adjustments */
-    body.vscode-high-contrast .log-line {
-      border: 1px solid transparent;
+    .log-line {
+      height: ${ROW_HEIGHT}px;
+      min-height: 0;
+      margin-bottom: 0;
+      padding: 0 8px;
+      border-radius: 0;
+      align-items: center;
     }
-    body.vscode-high-contrast .log-error {
-      border-color: #f44336;
+
+    .log-message {
+      white-space: pre;
+      word-break: normal;
     }
-    body.vscode-high-contrast .log-warning {
-      border-color: #ff9800;
+
+    .log-border {
+      align-self: stretch;
+      margin: 2px 0;
     }
-    body.vscode-high-contrast .log-success {
-      border-color: #4caf50;
+
+    .log-badge,
+    .log-timestamp {
+      height: 16px;
     }
-    body.vscode-high-contrast .log-info {
-      border-color: #2196f3;
+
+    .log-marker .log-message {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
     }
+    ${typeStyles}
+    ${chipStyles}
   </style>
 </head>
 <body>
-  <div class="toolbar">
-    <button onclick="scrollToBottom()">Scroll to Bottom</button>
-    <button onclick="copyLogs()">Copy</button>
+  <header>
+    <div class="toolbar">
+      <div class="toolbar-left" id="runtimeControls" hidden>
+        <label>Container:</label>
+        <select id="containerSelect" onchange="changeContainer(this.value)"></select>
+        <label>Tail:</label>
+        <select id="tailSelect" onchange="changeTail(this.value)"></select>
+      </div>
+      <div class="toolbar-right">
+        <button onclick="scrollToBottom()">Scroll to Bottom</button>
+        <button onclick="copyLogs()">Copy</button>
+        <button onclick="openInEditor()">Open in Editor</button>
+        <button onclick="saveAs()">Save As...</button>
+      </div>
+    </div>
+    <div class="toolbar">
+      <div class="toolbar-left">
+        <div class="search" id="search">
+          <input id="searchInput" type="text" placeholder="Search" spellcheck="false">
+          <button class="toggle" id="caseToggle" title="Match Case" aria-pressed="false" onclick="toggleOption('caseSensitive')">Aa</button>
+          <button class="toggle" id="regexToggle" title="Use Regular Expression" aria-pressed="false" onclick="toggleOption('regex')">.*</button>
+        </div>
+        <span id="matchCount"></span>
+        <button class="icon" title="Previous Match (Shift+Enter)" onclick="goToMatch(-1)">&#8593;</button>
+        <button class="icon" title="Next Match (Enter)" onclick="goToMatch(1)">&#8595;</button>
+      </div>
+      <div class="chips">${chips}</div>
+    </div>
+  </header>
+  <div id="viewport">
+    <div id="placeholder"></div>
+    <div id="spacer"><div id="rows"></div></div>
   </div>
-  <div id="log-content">${content}</div>
   <script>
+    const vscode = acquireVsCodeApi();
+    const ROW_HEIGHT = ${ROW_HEIGHT};
+    const OVERSCAN = 20;
+
+    const viewport = document.getElementById('viewport');
+    const spacer = document.getElementById('spacer');
+    const rows = document.getElementById('rows');
+    const placeholder = document.getElementById('placeholder');
+    const searchInput = document.getElementById('searchInput');
+    const matchCount = document.getElementById('matchCount');
+
+    // Filters survive new streams and reloads of the page
+    const filters = Object.assign(
+      { query: '', regex: false, caseSensitive: false, hiddenLevels: [] },
+      vscode.getState()
+    );
+
+    let entries = [];
+    let visibleEntries = [];
+    let matches = [];
+    let currentMatch = -1;
+    let pattern = null;
+    let counts = {};
+    // Rows are numbered from the last full pass; dropping old lines only
+    // moves the offset instead of renumbering every row
+    let rowOffset = 0;
+    let maxLines = ${DEFAULT_MAX_LOG_LINES};
+    let showTimestamp = false;
+    let status = '';
+    let pinned = true;
+    let renderScheduled = false;
+
+    function changeContainer(containerId) {
+      vscode.postMessage({ command: 'changeContainer', containerId });
+    }
+
+    function changeTail(tail) {
+      vscode.postMessage({ command: 'changeTail', tail: parseInt(tail, 10) });
+    }
+
     function scrollToBottom() {
-      window.scrollTo(0, document.body.scrollHeight);
+      pinned = true;
+      viewport.scrollTop = viewport.scrollHeight;
+      scheduleRender();
     }
+
     function copyLogs() {
-      const logLines = document.querySelectorAll('.log-message');
-      const text = Array.from(logLines).map(el => el.innerText).join('\\n');
-      navigator.clipboard.writeText(text);
+      navigator.clipboard.writeText(visibleEntries.map(entry => entry.text).join('\\n'));
     }
-    // Auto-scroll to bottom on initial load
-    scrollToBottom();
-  </script>
-</body>
-</html>`;
-  }
 
-  private formatLogLine(line: string): string {
-    if (!line.trim()) {
-      return '<div class="log-line log-empty">&nbsp;</div>';
+    function openInEditor() {
+      vscode.postMessage({ command: 'openInEditor' });
     }
 
-    const parsed = parseLogLine(line);
-    const style = getLogType(parsed.message);
-    const messageHtml = ansiConverter.toHtml(escapeHtml(parsed.message));
-    const timestampHtml = this.timestamp && parsed.timestamp
-      ? `<span class="log-timestamp">${formatTimestamp(parsed.timestamp)}</span>`
-      : '';
-
-    return `<div class="log-line ${style.bgClass}">
-      <div class="log-border" style="background-color: ${style.borderColor}"></div>
-      ${timestampHtml}
-      <span class="log-badge" style="background-color: ${style.badgeBg}; color: ${style.badgeText}">${style.type}</span>
-      <span class="log-message">${messageHtml}</span>
-    </div>`;
-  }
-
-  private getRuntimeHtml(
-    content: string,
-    containers: Container[],
-    selectedContainerId: string,
-    tail: number
-  ): string {
-    const containerOptions = containers
-      .map(c => `<option value="${c.containerId}" ${c.containerId === selectedContainerId ? 'selected' : ''}>${c.name} (${c.state})</option>`)
-      .join('');
+    function saveAs() {
+      vscode.postMessage({ command: 'saveAs' });
+    }
 
-    const tailOptions = [100, 500, 1000, 5000]
-      .map(t => `<option value="${t}" ${t === tail ? 'selected' : ''}>${t} lines</option>`)
-      .join('');
+    function setOptions(select, options, selected) {
+      select.innerHTML = '';
+      for (const option of options) {
+        const element = document.createElement('option');
+        element.value = String(option.value);
+        element.textContent = option.label;
+        element.selected = String(option.value) === String(selected);
+        select.appendChild(element);
+      }
+    }
 
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Runtime Logs</title>
-  <style>
-    ${this.getSharedStyles()}
+    function escapeHtml(text) {
+      return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
 
-    .toolbar select {
-      background: var(--vscode-dropdown-background);
-      color: var(--vscode-dropdown-foreground);
-      border: 1px solid var(--vscode-dropdown-border);
-      padding: 4px 8px;
-      border-radius: 2px;
-      font-size: 12px;
-      cursor: pointer;
+    function buildPattern() {
+      document.getElementById('search').classList.remove('invalid');
+      if (!filters.query) {
+        return null;
+      }
+      const source = filters.regex ? filters.query : filters.query.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&');
+      try {
+        return new RegExp(source, filters.caseSensitive ? 'g' : 'gi');
+      } catch {
+        document.getElementById('search').classList.add('invalid');
+        return null;
+      }
     }
 
-    .toolbar select:focus {
-      outline: 1px solid var(--vscode-focusBorder);
+    function findMatches(entry) {
+      const found = [];
+      if (!pattern || !entry.message) {
+        return found;
+      }
+      pattern.lastIndex = 0;
+      let match;
+      while ((match = pattern.exec(entry.message)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        found.push({ entry, start: match.index, end: match.index + match[0].length });
+      }
+      return found;
     }
 
-    .toolbar-left {
-      display: flex;
-      gap: 8px;
-      align-items: center;
+    function isVisible(entry) {
+      return entry.type === 'marker' || !filters.hiddenLevels.includes(entry.type);
     }
 
-    .toolbar-right {
-      display: flex;
-      gap: 8px;
-      align-items: center;
+    /**
+     * Classifies entries appended after the last full pass, so streaming
+     * lines only cost their own filtering.
+     */
+    function index(newEntries) {
+      for (const entry of newEntries) {
+        if (entry.type !== 'marker' && entry.text) {
+          counts[entry.type] = (counts[entry.type] || 0) + 1;
+        }
+        entry.matches = findMatches(entry);
+        entry.visible = isVisible(entry);
+        if (entry.visible) {
+          entry.row = rowOffset + visibleEntries.length;
+          visibleEntries.push(entry);
+          for (const match of entry.matches) {
+            matches.push(match);
+          }
+        }
+      }
     }
 
-    .toolbar label {
-      font-size: 11px;
-      color: var(--vscode-descriptionForeground);
+    function reindex() {
+      const current = matches[currentMatch];
+      visibleEntries = [];
+      matches = [];
+      counts = {};
+      rowOffset = 0;
+      index(entries);
+      currentMatch = current
+        ? matches.findIndex(match => match.entry === current.entry && match.start === current.start)
+        : -1;
+      updateToolbar();
+    }
+
+    function updateToolbar() {
+      searchInput.value = filters.query;
+      document.getElementById('caseToggle').setAttribute('aria-pressed', String(filters.caseSensitive));
+      document.getElementById('regexToggle').setAttribute('aria-pressed', String(filters.regex));
+      for (const chip of document.querySelectorAll('.chip')) {
+        const level = chip.dataset.level;
+        chip.setAttribute('aria-pressed', String(!filters.hiddenLevels.includes(level)));
+        chip.textContent = level + ' ' + (counts[level] || 0);
+      }
+
+      if (!filters.query) {
+        matchCount.textContent = '';
+      } else if (!pattern) {
+        matchCount.textContent = 'Invalid pattern';
+      } else if (matches.length === 0) {
+        matchCount.textContent = 'No results';
+      } else if (currentMatch < 0) {
+        matchCount.textContent = matches.length + (matches.length === 1 ? ' match' : ' matches');
+      } else {
+        matchCount.textContent = (currentMatch + 1) + ' of ' + matches.length;
+      }
     }
-  </style>
-</head>
-<body>
-  <div class="toolbar" style="justify-content: space-between;">
-    <div class="toolbar-left">
-      <label>Container:</label>
-      <select id="containerSelect" onchange="changeContainer(this.value)">
-        ${containerOptions}
-      </select>
-      <label>Tail:</label>
-      <select id="tailSelect" onchange="changeTail(this.value)">
-        ${tailOptions}
-      </select>
-    </div>
-    <div class="toolbar-right">
-      <button onclick="scrollToBottom()">Scroll to Bottom</button>
-      <button onclick="copyLogs()">Copy</button>
-    </div>
-  </div>
-  <div id="log-content">${content}</div>
-  <script>
-    const vscode = acquireVsCodeApi();
 
-    function changeContainer(containerId) {
-      vscode.postMessage({ command: 'changeContainer', containerId });
+    function applyFilters() {
+      vscode.setState(filters);
+      pattern = buildPattern();
+      currentMatch = -1;
+      reindex();
+      scheduleRender();
     }
 
-    function changeTail(tail) {
-      vscode.postMessage({ command: 'changeTail', tail: parseInt(tail, 10) });
+    function toggleOption(option) {
+      filters[option] = !filters[option];
+      applyFilters();
     }
 
-    function scrollToBottom() {
-      window.scrollTo(0, document.body.scrollHeight);
+    function toggleLevel(level) {
+      filters.hiddenLevels = filters.hiddenLevels.includes(level)
+        ? filters.hiddenLevels.filter(hidden => hidden !== level)
+        : [...filters.hiddenLevels, level];
+      applyFilters();
     }
 
-    function copyLogs() {
-      const logLines = document.querySelectorAll('.log-message');
-      const text = Array.from(logLines).map(el => el.innerText).join('\\n');
-      navigator.clipboard.writeText(text);
+    function goToMatch(delta) {
+      if (matches.length === 0) return;
+
+      currentMatch = currentMatch < 0
+        ? (delta > 0 ? 0 : matches.length - 1)
+        : (currentMatch + delta + matches.length) % matches.length;
+      const match = matches[currentMatch];
+
+      pinned = false;
+      viewport.scrollTop = Math.max(0, (match.entry.row - rowOffset) * ROW_HEIGHT - viewport.clientHeight / 2);
+      updateToolbar();
+      scheduleRender();
+    }
+
+    /**
+     * Wraps the matches in the ANSI-coloured html. Tags take no room in the
+     * plain message and entities stand for one character; a mark is closed
+     * before each tag and reopened after it so colour spans stay intact.
+     */
+    function highlight(entry) {
+      const html = entry.html;
+      let result = '';
+      let offset = 0;
+      let next = 0;
+      let open = null;
+      let inMark = false;
+      let i = 0;
+
+      while (true) {
+        if (open && offset === open.end) {
+          if (inMark) result += '</mark>';
+          inMark = false;
+          open = null;
+        }
+        if (!open && next < entry.matches.length && entry.matches[next].start === offset) {
+          open = entry.matches[next++];
+        }
+        if (i >= html.length) break;
+
+        if (html[i] === '<') {
+          if (inMark) result += '</mark>';
+          inMark = false;
+          const tagEnd = html.indexOf('>', i) + 1;
+          result += html.slice(i, tagEnd);
+          i = tagEnd;
+          continue;
+        }
+
+        if (open && !inMark) {
+          result += '<mark class="match' + (matches[currentMatch] === open ? ' current' : '') + '">';
+          inMark = true;
+        }
+        const length = html[i] === '&' ? html.indexOf(';', i) + 1 - i : 1;
+        result += html.slice(i, i + length);
+        i += length;
+        offset++;
+      }
+
+      return inMark ? result + '</mark>' : result;
+    }
+
+    function renderRow(entry) {
+      const message = entry.matches.length > 0 ? highlight(entry) : entry.html;
+      if (entry.type === 'marker') {
+        return '<div class="log-line log-marker"><span class="log-message">' + message + '</span></div>';
+      }
+      if (!entry.text) {
+        return '<div class="log-line log-empty"></div>';
+      }
+      const timestamp = showTimestamp ? '<span class="log-timestamp">' + entry.timestamp + '</span>' : '';
+      return '<div class="log-line log-' + entry.type + '">' +
+        '<div class="log-border"></div>' + timestamp +
+        '<span class="log-badge">' + entry.type + '</span>' +
+        '<span class="log-message">' + message + '</span>' +
+        '</div>';
+    }
+
+    function scheduleRender() {
+      if (renderScheduled) return;
+      renderScheduled = true;
+      requestAnimationFrame(() => {
+        renderScheduled = false;
+        render();
+      });
+    }
+
+    function render() {
+      placeholder.hidden = entries.length > 0;
+      placeholder.textContent = status;
+      spacer.style.height = visibleEntries.length * ROW_HEIGHT + 'px';
+      if (pinned) {
+        viewport.scrollTop = viewport.scrollHeight;
+      }
+
+      const first = Math.max(0, Math.floor(viewport.scrollTop / ROW_HEIGHT) - OVERSCAN);
+      const last = Math.min(visibleEntries.length, Math.ceil((viewport.scrollTop + viewport.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+      rows.style.transform = 'translateY(' + first * ROW_HEIGHT + 'px)';
+      rows.innerHTML = visibleEntries.slice(first, last).map(renderRow).join('');
+    }
+
+    function append(newEntries) {
+      for (const entry of newEntries) {
+        entries.push(entry);
+      }
+
+      index(newEntries);
+
+      const overflow = entries.length - maxLines;
+      if (overflow > 0) {
+        const droppedRows = drop(entries.splice(0, overflow));
+        if (!pinned) {
+          // Keep the lines the user is reading in place as older ones drop off
+          viewport.scrollTop = Math.max(0, viewport.scrollTop - droppedRows * ROW_HEIGHT);
+        }
+      }
+      updateToolbar();
+      scheduleRender();
+    }
+
+    /**
+     * Removes the oldest entries from the index. They are always the first
+     * visible rows and the first matches, so only they need to be touched.
+     */
+    function drop(dropped) {
+      let droppedRows = 0;
+      let droppedMatches = 0;
+      for (const entry of dropped) {
+        if (entry.type !== 'marker' && entry.text) {
+          counts[entry.type]--;
+        }
+        if (entry.visible) {
+          droppedRows++;
+          droppedMatches += entry.matches.length;
+        }
+      }
+
+      visibleEntries.splice(0, droppedRows);
+      matches.splice(0, droppedMatches);
+      rowOffset += droppedRows;
+      if (currentMatch >= 0) {
+        currentMatch = currentMatch >= droppedMatches ? currentMatch - droppedMatches : -1;
+      }
+      return droppedRows;
     }
 
-    scrollToBottom();
+    searchInput.addEventListener('input', () => {
+      filters.query = searchInput.value;
+      applyFilters();
+    });
+
+    searchInput.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        goToMatch(event.shiftKey ? -1 : 1);
+      } else if (event.key === 'Escape') {
+        filters.query = '';
+        applyFilters();
+      }
+    });
+
+    window.addEventListener('keydown', event => {
+      if ((event.ctrlKey || event.metaKey) && event.key === 'f') {
+        event.preventDefault();
+        searchInput.focus();
+        searchInput.select();
+      }
+    });
+
+    viewport.addEventListener('scroll', () => {
+      pinned = viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - ROW_HEIGHT;
+      scheduleRender();
+    });
+
+    window.addEventListener('resize', scheduleRender);
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      switch (message.command) {
+        case 'reset':
+          entries = message.entries;
+          status = message.status;
+          maxLines = message.maxLines;
+          showTimestamp = message.timestamp;
+          pinned = true;
+          currentMatch = -1;
+          reindex();
+          document.getElementById('runtimeControls').hidden = !message.runtime;
+          if (message.runtime) {
+            setOptions(
+              document.getElementById('containerSelect'),
+              message.runtime.containers.map(container => ({ value: container.id, label: container.label })),
+              message.runtime.selectedContainerId
+            );
+            setOptions(
+              document.getElementById('tailSelect'),
+              message.runtime.tailOptions.map(tail => ({ value: tail, label: tail + ' lines' })),
+              message.runtime.tail
+            );
+          }
+          scheduleRender();
+          break;
+        case 'append':
+          append(message.entries);
+          break;
+        case 'status':
+          status = message.status;
+          scheduleRender();
+          break;
+      }
+    });
+
+    pattern = buildPattern();
+    updateToolbar();
+
+    vscode.postMessage({ command: 'ready' });
   </script>
 </body>
 </html>`;
@@ -1004,5 +1479,6 @@ export class LogsWebview {
     if (this.panel) {
       this.panel.dispose();
     }
+    this._onDidChangeContent.dispose();
   }
 }
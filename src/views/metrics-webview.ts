@@ -0,0 +1,420 @@
+import * as vscode from 'vscode';
+import { DokployClient } from '../api/dokploy-client';
+import { formatApiError } from '../api/errors';
+import { ContainerMetricsStore, MetricsEndpoint, resolveMetricsEndpoint } from '../services/container-metrics';
+import { log } from '../services/logger';
+import { Application, Container } from '../types/dokploy';
+
+export type MetricsTarget = Pick<Application, 'name' | 'appName' | 'serverId'>;
+
+const TIME_WINDOWS = [
+  { label: '5 minutes', ms: 5 * 60 * 1000 },
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '6 hours', ms: 6 * 60 * 60 * 1000 }
+];
+
+const MIN_POLL_INTERVAL_MS = 5000;
+
+interface MetricsConfig {
+  app: MetricsTarget;
+  client: DokployClient;
+  endpoint: MetricsEndpoint;
+  containers: Container[];
+  selectedContainerId: string;
+  windowMs: number;
+}
+
+interface WebviewMessage {
+  command: 'ready' | 'changeContainer' | 'changeWindow';
+  containerId?: string;
+  windowMs?: number;
+}
+
+export class MetricsWebview {
+  private panel: vscode.WebviewPanel | undefined;
+  private config: MetricsConfig | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private store = new ContainerMetricsStore();
+  private error: string | undefined;
+
+  async show(app: MetricsTarget, client: DokployClient): Promise<void> {
+    log(`Opening metrics for: ${app.name}`);
+
+    const containers = await client.getContainersByAppLabel(app.appName);
+    if (containers.length === 0) {
+      vscode.window.showInformationMessage(`${app.name} has no running containers`);
+      return;
+    }
+
+    const endpoint = await resolveMetricsEndpoint(client, app.serverId);
+    if (!endpoint) {
+      vscode.window.showWarningMessage(
+        `Monitoring is not set up on the server running ${app.name}. Enable it in Dokploy under Monitoring.`
+      );
+      return;
+    }
+
+    this.config = {
+      app,
+      client,
+      endpoint,
+      containers,
+      selectedContainerId: containers[0].containerId,
+      windowMs: this.config?.windowMs ?? TIME_WINDOWS[0].ms
+    };
+    this.error = undefined;
+
+    this.createOrRevealPanel(`Metrics: ${app.name}`);
+    this.startPolling(endpoint);
+  }
+
+  private createOrRevealPanel(title: string): void {
+    if (this.panel) {
+      this.panel.reveal();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'dokployMetrics',
+        title,
+        vscode.ViewColumn.One,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true
+        }
+      );
+
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.config = undefined;
+        this.stopPolling();
+      });
+
+      this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+        if (!this.config) return;
+
+        switch (message.command) {
+          case 'ready':
+            this.postUpdate();
+            break;
+          case 'changeContainer':
+            if (message.containerId) {
+              this.config.selectedContainerId = message.containerId;
+              this.postUpdate();
+            }
+            break;
+          case 'changeWindow':
+            if (message.windowMs) {
+              this.config.windowMs = message.windowMs;
+              this.postUpdate();
+              this.poll();
+            }
+            break;
+        }
+      });
+
+      this.panel.webview.html = this.getHtml();
+    }
+
+    this.panel.title = title;
+  }
+
+  private startPolling(endpoint: MetricsEndpoint): void {
+    this.stopPolling();
+    this.poll();
+
+    const interval = Math.max(endpoint.refreshRateS * 1000, MIN_POLL_INTERVAL_MS);
+    this.timer = setInterval(() => this.poll(), interval);
+  }
+
+  private stopPolling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Fetches enough points to fill the selected window. The agent returns the
+   * samples of every container of the app, so all their histories grow.
+   */
+  private async poll(): Promise<void> {
+    const config = this.config;
+    if (!config) return;
+
+    const { client, endpoint, app, windowMs } = config;
+    const dataPoints = Math.ceil(windowMs / (endpoint.refreshRateS * 1000)) + 1;
+
+    try {
+      const metrics = await client.getContainerMetrics(endpoint.url, endpoint.token, app.appName, dataPoints);
+      this.store.add(metrics ?? []);
+      this.error = undefined;
+    } catch (error) {
+      log(`Error loading metrics for ${app.name}:`, error instanceof Error ? error.message : error);
+      this.error = formatApiError(error);
+    }
+
+    if (this.config === config) {
+      this.postUpdate();
+    }
+  }
+
+  private postUpdate(): void {
+    if (!this.panel || !this.config) return;
+
+    const { containers, selectedContainerId, windowMs } = this.config;
+    this.panel.webview.postMessage({
+      command: 'update',
+      containers: containers.map(c => ({ id: c.containerId, label: `${c.name} (${c.state})` })),
+      selectedContainerId,
+      windowMs,
+      windows: TIME_WINDOWS,
+      samples: this.store.get(selectedContainerId, windowMs),
+      error: this.error
+    });
+  }
+
+  private getHtml(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Metrics</title>
+  <style>
+    * {
+      box-sizing: border-box;
+    }
+
+    body {
+      background-color: var(--vscode-editor-background);
+      color: var(--vscode-editor-foreground);
+      font-family: var(--vscode-font-family);
+      font-size: 12px;
+      padding: 0;
+      margin: 0;
+    }
+
+    .toolbar {
+      position: sticky;
+      top: 0;
+      padding: 8px 16px;
+      background: var(--vscode-sideBar-background);
+      border-bottom: 1px solid var(--vscode-sideBar-border, var(--vscode-panel-border));
+      display: flex;
+      gap: 8px;
+      align-items: center;
+    }
+
+    .toolbar label {
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .toolbar select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      padding: 4px 8px;
+      border-radius: 2px;
+      font-size: 12px;
+    }
+
+    .error {
+      margin: 8px 16px 0;
+      color: var(--vscode-errorForeground);
+    }
+
+    .charts {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(360px, 1fr));
+      gap: 16px;
+      padding: 16px;
+    }
+
+    .chart {
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 4px;
+      padding: 8px 12px;
+    }
+
+    .chart h3 {
+      margin: 0 0 4px;
+      font-size: 12px;
+      font-weight: 600;
+      display: flex;
+      justify-content: space-between;
+    }
+
+    .chart .current {
+      font-weight: normal;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .chart svg {
+      width: 100%;
+      height: 140px;
+    }
+
+    .chart .grid {
+      stroke: var(--vscode-panel-border);
+      stroke-width: 1;
+    }
+
+    .chart .axis {
+      fill: var(--vscode-descriptionForeground);
+      font-size: 10px;
+    }
+
+    .chart polyline {
+      fill: none;
+      stroke-width: 1.5;
+    }
+
+    .legend {
+      display: flex;
+      gap: 12px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .legend span::before {
+      content: '';
+      display: inline-block;
+      width: 8px;
+      height: 8px;
+      margin-right: 4px;
+      border-radius: 2px;
+      background: var(--color);
+    }
+
+    .empty {
+      padding: 32px 16px;
+      text-align: center;
+      color: var(--vscode-descriptionForeground);
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <label>Container:</label>
+    <select id="containerSelect" onchange="changeContainer(this.value)"></select>
+    <label>Window:</label>
+    <select id="windowSelect" onchange="changeWindow(this.value)"></select>
+  </div>
+  <div id="error" class="error"></div>
+  <div id="charts" class="charts"><div class="empty">Loading metrics...</div></div>
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    const CHARTS = [
+      { title: 'CPU', unit: '%', series: [{ key: 'cpu', label: 'CPU', color: '#2196f3' }] },
+      { title: 'Memory', unit: 'MB', series: [{ key: 'memoryMb', label: 'Used', color: '#4caf50' }] },
+      { title: 'Network', unit: 'MB/s', series: [
+        { key: 'networkInRate', label: 'In', color: '#ff9800' },
+        { key: 'networkOutRate', label: 'Out', color: '#9c27b0' }
+      ] },
+      { title: 'Block I/O', unit: 'MB/s', series: [
+        { key: 'blockReadRate', label: 'Read', color: '#00bcd4' },
+        { key: 'blockWriteRate', label: 'Write', color: '#f44336' }
+      ] }
+    ];
+
+    function changeContainer(containerId) {
+      vscode.postMessage({ command: 'changeContainer', containerId });
+    }
+
+    function changeWindow(windowMs) {
+      vscode.postMessage({ command: 'changeWindow', windowMs: parseInt(windowMs, 10) });
+    }
+
+    function setOptions(select, options, selected) {
+      select.innerHTML = '';
+      for (const option of options) {
+        const element = document.createElement('option');
+        element.value = option.value;
+        element.textContent = option.label;
+        element.selected = option.value === String(selected);
+        select.appendChild(element);
+      }
+    }
+
+    function format(value, unit) {
+      const digits = value >= 100 ? 0 : value >= 10 ? 1 : 2;
+      return value.toFixed(digits) + (unit === '%' ? '%' : ' ' + unit);
+    }
+
+    function renderChart(chart, samples, windowMs) {
+      const width = 400, height = 140, left = 44, bottom = 16;
+      const now = Date.now();
+      const start = now - windowMs;
+      // Rates are missing on a container's first sample
+      const values = samples.flatMap(sample => chart.series.map(series => sample[series.key]))
+        .filter(value => value !== undefined);
+      const max = Math.max(chart.unit === '%' ? 100 : 0, ...values) || 1;
+      const x = time => left + ((time - start) / windowMs) * (width - left);
+      const y = value => (height - bottom) - (value / max) * (height - bottom - 8);
+
+      const lines = chart.series.map(series => {
+        const points = samples
+          .filter(sample => sample[series.key] !== undefined)
+          .map(sample => x(sample.time).toFixed(1) + ',' + y(sample[series.key]).toFixed(1)).join(' ');
+        return '<polyline points="' + points + '" stroke="' + series.color + '"></polyline>';
+      }).join('');
+
+      const grid = [0, 0.5, 1].map(fraction => {
+        const value = max * fraction;
+        return '<line class="grid" x1="' + left + '" x2="' + width + '" y1="' + y(value) + '" y2="' + y(value) + '"></line>' +
+          '<text class="axis" x="' + (left - 4) + '" y="' + (y(value) + 3) + '" text-anchor="end">' + format(value, chart.unit) + '</text>';
+      }).join('');
+
+      const timeLabel = time => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const axis = '<text class="axis" x="' + left + '" y="' + height + '">' + timeLabel(start) + '</text>' +
+        '<text class="axis" x="' + width + '" y="' + height + '" text-anchor="end">' + timeLabel(now) + '</text>';
+
+      const last = samples[samples.length - 1];
+      const current = last && last[chart.series[0].key] !== undefined
+        ? chart.series.map(series => series.label + ' ' + format(last[series.key], chart.unit)).join(' · ')
+        : '';
+      const legend = chart.series.length > 1
+        ? '<div class="legend">' + chart.series.map(series => '<span style="--color: ' + series.color + '">' + series.label + '</span>').join('') + '</div>'
+        : '';
+
+      return '<div class="chart"><h3>' + chart.title + '<span class="current">' + current + '</span></h3>' +
+        '<svg viewBox="0 0 ' + width + ' ' + height + '" preserveAspectRatio="none">' + grid + axis + lines + '</svg>' +
+        legend + '</div>';
+    }
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.command !== 'update') return;
+
+      setOptions(
+        document.getElementById('containerSelect'),
+        message.containers.map(container => ({ value: container.id, label: container.label })),
+        message.selectedContainerId
+      );
+      setOptions(
+        document.getElementById('windowSelect'),
+        message.windows.map(window => ({ value: String(window.ms), label: window.label })),
+        message.windowMs
+      );
+
+      document.getElementById('error').textContent = message.error ? 'Could not load metrics: ' + message.error : '';
+      document.getElementById('charts').innerHTML = message.samples.length === 0
+        ? '<div class="empty">No samples in this window yet</div>'
+        : CHARTS.map(chart => renderChart(chart, message.samples, message.windowMs)).join('');
+    });
+
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+
+  dispose(): void {
+    this.stopPolling();
+    if (this.panel) {
+      this.panel.dispose();
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { DeploymentsProvider } from '../providers/deployments-provider';
+import { formatRelativeDate } from '../services/format';
+import { log } from '../services/logger';
+import { Application, ApplicationStatus, Deployment } from '../types/dokploy';
+
+const STATUS_ICONS: Record<ApplicationStatus, string> = {
+  running: '$(sync~spin)',
+  done: '$(check)',
+  error: '$(error)',
+  idle: '$(circle-outline)'
+};
+
+interface AppAction extends vscode.QuickPickItem {
+  run: () => Thenable<unknown>;
+}
+
+/**
+ * Shows the status of the applications matched to the workspace in the
+ * status bar, with a quick pick of common actions on click.
+ */
+export class ApplicationStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+  private latestDeployments = new Map<string, Deployment | undefined>();
+  private disposables: vscode.Disposable[];
+
+  constructor(private deploymentsProvider: DeploymentsProvider) {
+    this.item.command = 'dokploy.showStatusMenu';
+    this.item.name = 'Dokploy';
+
+    this.disposables = [
+      this.item,
+      deploymentsProvider.onDidLoad(() => this.update()),
+      deploymentsProvider.onDidChangeTreeData(() => this.render())
+    ];
+  }
+
+  async update(): Promise<void> {
+    const apps = this.deploymentsProvider.getMatchedApplications();
+
+    this.latestDeployments.clear();
+    await Promise.all(apps.map(async app => {
+      const client = this.deploymentsProvider.getClient(app.applicationId);
+      if (!client) {
+        return;
+      }
+
+      try {
+        const [latest] = await client.getDeployments(app.applicationId);
+        this.latestDeployments.set(app.applicationId, latest);
+      } catch (error) {
+        log(`Failed to fetch latest deployment of ${app.name}:`, error);
+      }
+    }));
+
+    this.render();
+  }
+
+  private render(): void {
+    const apps = this.deploymentsProvider.getMatchedApplications();
+    if (apps.length === 0) {
+      this.item.hide();
+      return;
+    }
+
+    const statuses = apps.map(app => this.deploymentsProvider.getApplicationStatus(app));
+
+    if (apps.length === 1) {
+      const [app] = apps;
+      const latest = this.latestDeployments.get(app.applicationId);
+      const age = statuses[0] === 'running' ? 'deploying' : latest ? formatRelativeDate(latest.createdAt) : statuses[0];
+      this.item.text = `${STATUS_ICONS[statuses[0]]} ${app.name} · ${age}`;
+    } else {
+      const running = statuses.filter(s => s === 'running').length;
+      const failing = statuses.filter(s => s === 'error').length;
+      const ok = statuses.filter(s => s === 'done').length;
+      const parts = [`${ok} ok`, `${failing} failing`];
+      if (running > 0) {
+        parts.unshift(`${running} deploying`);
+      }
+      const icon = running > 0 ? STATUS_ICONS.running : failing > 0 ? STATUS_ICONS.error : STATUS_ICONS.done;
+      this.item.text = `${icon} ${parts.join(' / ')}`;
+    }
+
+    const tooltip = new vscode.MarkdownString('**Dokploy**\n\n');
+    apps.forEach((app, index) => {
+      const latest = this.latestDeployments.get(app.applicationId);
+      const deployed = latest ? `, last deployed ${formatRelativeDate(latest.createdAt)}` : '';
+      tooltip.appendMarkdown(`- ${STATUS_ICONS[statuses[index]]} ${app.name}: ${statuses[index]}${deployed}\n`);
+    });
+    tooltip.supportThemeIcons = true;
+    this.item.tooltip = tooltip;
+    this.item.backgroundColor = statuses.includes('error')
+      ? new vscode.ThemeColor('statusBarItem.errorBackground')
+      : undefined;
+    this.item.show();
+  }
+
+  async showMenu(): Promise<void> {
+    const apps = this.deploymentsProvider.getMatchedApplications();
+    if (apps.length === 0) {
+      return;
+    }
+
+    let app: Application | undefined = apps[0];
+    if (apps.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        apps.map(a => ({
+          label: `${STATUS_ICONS[this.deploymentsProvider.getApplicationStatus(a)]} ${a.name}`,
+          description: this.deploymentsProvider.getApplicationStatus(a),
+          app: a
+        })),
+        { placeHolder: 'Select an application' }
+      );
+      app = picked?.app;
+    }
+    if (!app) {
+      return;
+    }
+
+    const target = app;
+    const latest = this.latestDeployments.get(target.applicationId);
+    const actions: AppAction[] = [];
+    if (latest) {
+      actions.push({
+        label: '$(output) View Latest Logs',
+        description: latest.title || formatRelativeDate(latest.createdAt),
+        run: () => vscode.commands.executeCommand('dokploy.viewLogs', latest)
+      });
+    }
+    actions.push(
+      {
+        label: '$(rocket) Redeploy',
+        run: () => vscode.commands.executeCommand('dokploy.redeploy', target)
+      },
+      {
+        label: '$(link-external) Open in Browser',
+        run: () => vscode.commands.executeCommand('dokploy.openInBrowser', target)
+      }
+    );
+
+    const action = await vscode.window.showQuickPick(actions, { placeHolder: target.name });
+    await action?.run();
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}